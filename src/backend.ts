@@ -0,0 +1,392 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+import EventEmitter from 'node:events';
+import fs from 'node:fs';
+import fsPromises from 'node:fs/promises';
+import path from 'node:path';
+
+export interface StreamOptions {
+  flags?: string;
+  encoding?: BufferEncoding;
+  fd?: number | fsPromises.FileHandle;
+  mode?: number;
+  autoClose?: boolean;
+  emitClose?: boolean;
+  start?: number;
+  highWaterMark?: number;
+}
+
+export interface ReadStreamOptions extends StreamOptions {
+  end?: number;
+}
+
+export type AppendFileOptions = BufferEncoding | (fs.ObjectEncodingOptions & {mode?: fs.Mode; flag?: fs.OpenMode});
+export type ReadFileOptions =
+  BufferEncoding | (fs.ObjectEncodingOptions & EventEmitter.Abortable & {flag?: fs.OpenMode});
+export type TimeLike = string | number | Date;
+export type WriteFileOptions =
+  BufferEncoding | (fs.ObjectEncodingOptions & EventEmitter.Abortable & {mode?: fs.Mode; flag?: fs.OpenMode});
+
+/**
+ * Directory entry, as returned by `readdir` and `opendir`.
+ */
+export interface DirectoryEntry {
+  name: string;
+  isDirectory(): boolean;
+  isFile(): boolean;
+  isSymbolicLink(): boolean;
+}
+
+/**
+ * File system watcher, emits `change` events with an event type (`rename` or `change`) and a file name relative to the
+ * watched directory.
+ */
+export interface Watcher extends EventEmitter {
+  close(): void;
+}
+
+/**
+ * File system backend, all file system operations performed by `Path` objects go through a backend.
+ */
+export interface Backend {
+  access(path: string, mode?: number): Promise<void>;
+  accessSync(path: string, mode?: number): void;
+  appendFile(path: string, data: string | Uint8Array, options?: AppendFileOptions): Promise<void>;
+  appendFileSync(path: string, data: string | Uint8Array, options?: AppendFileOptions): void;
+  chmod(path: string, mode: string | number): Promise<void>;
+  chmodSync(path: string, mode: string | number): void;
+  chown(path: string, uid: number, gid: number): Promise<void>;
+  chownSync(path: string, uid: number, gid: number): void;
+  copyFile(source: string, destination: string, flags?: number): Promise<void>;
+  copyFileSync(source: string, destination: string, flags?: number): void;
+  cp(source: string, destination: string, options?: fs.CopyOptions): Promise<void>;
+  cpSync(source: string, destination: string, options?: fs.CopySyncOptions): void;
+  createReadStream(path: string, options?: BufferEncoding | ReadStreamOptions): fs.ReadStream;
+  createWriteStream(path: string, options?: BufferEncoding | StreamOptions): fs.WriteStream;
+  fsync(path: string): Promise<void>;
+  fsyncSync(path: string): void;
+  lstat(path: string, options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats>;
+  lstatSync(path: string, options?: fs.StatOptions): fs.Stats | fs.BigIntStats | undefined;
+  mkdir(path: string, options?: fs.MakeDirectoryOptions): Promise<string | undefined>;
+  mkdirSync(path: string, options?: fs.MakeDirectoryOptions): string | undefined;
+  mkdtemp(prefix: string, options?: fs.ObjectEncodingOptions): Promise<string>;
+  mkdtempSync(prefix: string, options?: fs.ObjectEncodingOptions): string;
+  open(path: string, flags: string | number, mode?: string | number): Promise<fsPromises.FileHandle>;
+  opendir(path: string): Promise<AsyncIterable<DirectoryEntry>>;
+  opendirSync(path: string): Iterable<DirectoryEntry>;
+  readdir(path: string): Promise<DirectoryEntry[]>;
+  readdirSync(path: string): DirectoryEntry[];
+  readFile(path: string, options?: ReadFileOptions): Promise<string | Buffer>;
+  readFileSync(path: string, options?: ReadFileOptions): string | Buffer;
+  readlink(path: string): Promise<string>;
+  readlinkSync(path: string): string;
+  realpath(path: string, options?: fs.ObjectEncodingOptions): Promise<string>;
+  realpathSync(path: string, options?: fs.ObjectEncodingOptions): string;
+  rename(oldPath: string, newPath: string): Promise<void>;
+  renameSync(oldPath: string, newPath: string): void;
+  rm(path: string, options?: fs.RmOptions): Promise<void>;
+  rmSync(path: string, options?: fs.RmOptions): void;
+  stat(path: string, options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats>;
+  statSync(path: string, options?: fs.StatOptions): fs.Stats | fs.BigIntStats | undefined;
+  symlink(target: string, path: string, type?: fs.symlink.Type): Promise<void>;
+  symlinkSync(target: string, path: string, type?: fs.symlink.Type): void;
+  truncate(path: string, len?: number): Promise<void>;
+  truncateSync(path: string, len?: number): void;
+  utimes(path: string, atime: TimeLike, mtime: TimeLike): Promise<void>;
+  utimesSync(path: string, atime: TimeLike, mtime: TimeLike): void;
+  watch(path: string, options: {recursive?: boolean}): Watcher;
+  writeFile(path: string, data: string | Uint8Array, options?: WriteFileOptions): Promise<void>;
+  writeFileSync(path: string, data: string | Uint8Array, options?: WriteFileOptions): void;
+}
+
+/**
+ * Default backend, using `node:fs` and `node:fs/promises`.
+ */
+export class NodeBackend implements Backend {
+  async access(path: string, mode?: number): Promise<void> {
+    await fsPromises.access(path, mode);
+  }
+
+  accessSync(path: string, mode?: number): void {
+    fs.accessSync(path, mode);
+  }
+
+  async appendFile(path: string, data: string | Uint8Array, options?: AppendFileOptions): Promise<void> {
+    await fsPromises.appendFile(path, data, options);
+  }
+
+  appendFileSync(path: string, data: string | Uint8Array, options?: AppendFileOptions): void {
+    fs.appendFileSync(path, data, options as fs.WriteFileOptions);
+  }
+
+  async chmod(path: string, mode: string | number): Promise<void> {
+    await fsPromises.chmod(path, mode);
+  }
+
+  chmodSync(path: string, mode: string | number): void {
+    fs.chmodSync(path, mode);
+  }
+
+  async chown(path: string, uid: number, gid: number): Promise<void> {
+    await fsPromises.chown(path, uid, gid);
+  }
+
+  chownSync(path: string, uid: number, gid: number): void {
+    fs.chownSync(path, uid, gid);
+  }
+
+  async copyFile(source: string, destination: string, flags?: number): Promise<void> {
+    await fsPromises.copyFile(source, destination, flags);
+  }
+
+  copyFileSync(source: string, destination: string, flags?: number): void {
+    fs.copyFileSync(source, destination, flags);
+  }
+
+  async cp(source: string, destination: string, options?: fs.CopyOptions): Promise<void> {
+    await fsPromises.cp(source, destination, options);
+  }
+
+  cpSync(source: string, destination: string, options?: fs.CopySyncOptions): void {
+    fs.cpSync(source, destination, options);
+  }
+
+  createReadStream(path: string, options?: BufferEncoding | ReadStreamOptions): fs.ReadStream {
+    return fs.createReadStream(path, options);
+  }
+
+  createWriteStream(path: string, options?: BufferEncoding | StreamOptions): fs.WriteStream {
+    return fs.createWriteStream(path, options);
+  }
+
+  async fsync(path: string): Promise<void> {
+    const isDir = (await fsPromises.stat(path)).isDirectory();
+    const fh = await fsPromises.open(path, isDir ? 'r' : 'r+');
+    try {
+      await fh.sync();
+    } finally {
+      await fh.close();
+    }
+  }
+
+  fsyncSync(path: string): void {
+    const isDir = fs.statSync(path).isDirectory();
+    const fd = fs.openSync(path, isDir ? 'r' : 'r+');
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  async lstat(path: string, options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats> {
+    return await fsPromises.lstat(path, options);
+  }
+
+  lstatSync(path: string, options?: fs.StatOptions): fs.Stats | fs.BigIntStats | undefined {
+    return fs.lstatSync(path, options);
+  }
+
+  async mkdir(path: string, options?: fs.MakeDirectoryOptions): Promise<string | undefined> {
+    return await fsPromises.mkdir(path, options);
+  }
+
+  mkdirSync(path: string, options?: fs.MakeDirectoryOptions): string | undefined {
+    return fs.mkdirSync(path, options);
+  }
+
+  async mkdtemp(prefix: string, options?: fs.ObjectEncodingOptions): Promise<string> {
+    return await fsPromises.mkdtemp(prefix, options);
+  }
+
+  mkdtempSync(prefix: string, options?: fs.ObjectEncodingOptions): string {
+    return fs.mkdtempSync(prefix, options);
+  }
+
+  async open(path: string, flags: string | number, mode?: string | number): Promise<fsPromises.FileHandle> {
+    return await fsPromises.open(path, flags, mode);
+  }
+
+  async opendir(path: string): Promise<AsyncIterable<DirectoryEntry>> {
+    return await fsPromises.opendir(path);
+  }
+
+  *opendirSync(path: string): Iterable<DirectoryEntry> {
+    const dir = fs.opendirSync(path);
+    try {
+      for (let entry = dir.readSync(); entry !== null; entry = dir.readSync()) {
+        yield entry;
+      }
+    } finally {
+      dir.closeSync();
+    }
+  }
+
+  async readdir(path: string): Promise<DirectoryEntry[]> {
+    return await fsPromises.readdir(path, {withFileTypes: true});
+  }
+
+  readdirSync(path: string): DirectoryEntry[] {
+    return fs.readdirSync(path, {withFileTypes: true});
+  }
+
+  async readFile(path: string, options?: ReadFileOptions): Promise<string | Buffer> {
+    return await fsPromises.readFile(path, options);
+  }
+
+  readFileSync(path: string, options?: ReadFileOptions): string | Buffer {
+    return fs.readFileSync(path, options as BufferEncoding | fs.ObjectEncodingOptions);
+  }
+
+  async readlink(path: string): Promise<string> {
+    return await fsPromises.readlink(path);
+  }
+
+  readlinkSync(path: string): string {
+    return fs.readlinkSync(path);
+  }
+
+  async realpath(path: string, options?: fs.ObjectEncodingOptions): Promise<string> {
+    return await fsPromises.realpath(path, options);
+  }
+
+  realpathSync(path: string, options?: fs.ObjectEncodingOptions): string {
+    return fs.realpathSync(path, options);
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    await fsPromises.rename(oldPath, newPath);
+  }
+
+  renameSync(oldPath: string, newPath: string): void {
+    fs.renameSync(oldPath, newPath);
+  }
+
+  async rm(path: string, options?: fs.RmOptions): Promise<void> {
+    await fsPromises.rm(path, options);
+  }
+
+  rmSync(path: string, options?: fs.RmOptions): void {
+    fs.rmSync(path, options);
+  }
+
+  async stat(path: string, options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats> {
+    return await fsPromises.stat(path, options);
+  }
+
+  statSync(path: string, options?: fs.StatOptions): fs.Stats | fs.BigIntStats | undefined {
+    return fs.statSync(path, options);
+  }
+
+  async symlink(target: string, path: string, type?: fs.symlink.Type): Promise<void> {
+    await fsPromises.symlink(target, path, type);
+  }
+
+  symlinkSync(target: string, path: string, type?: fs.symlink.Type): void {
+    fs.symlinkSync(target, path, type);
+  }
+
+  async truncate(path: string, len?: number): Promise<void> {
+    await fsPromises.truncate(path, len);
+  }
+
+  truncateSync(path: string, len?: number): void {
+    fs.truncateSync(path, len);
+  }
+
+  async utimes(path: string, atime: TimeLike, mtime: TimeLike): Promise<void> {
+    await fsPromises.utimes(path, atime, mtime);
+  }
+
+  utimesSync(path: string, atime: TimeLike, mtime: TimeLike): void {
+    fs.utimesSync(path, atime, mtime);
+  }
+
+  watch(path: string, options: {recursive?: boolean}): Watcher {
+    try {
+      return fs.watch(path, options);
+    } catch (error) {
+      // Recursive watching is not available everywhere (like Linux with Node.js 18)
+      if (options.recursive !== true || (error as {code?: string}).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        throw error;
+      }
+      return new RecursiveWatcher(path);
+    }
+  }
+
+  async writeFile(path: string, data: string | Uint8Array, options?: WriteFileOptions): Promise<void> {
+    await fsPromises.writeFile(path, data, options);
+  }
+
+  writeFileSync(path: string, data: string | Uint8Array, options?: WriteFileOptions): void {
+    fs.writeFileSync(path, data, options as fs.WriteFileOptions);
+  }
+}
+
+/**
+ * Recursive watcher for platforms without native support, uses one watcher per directory and emits file names relative
+ * to the watched directory.
+ */
+class RecursiveWatcher extends EventEmitter implements Watcher {
+  _root: string;
+  _watchers = new Map<string, fs.FSWatcher>();
+
+  constructor(root: string) {
+    super();
+    this._root = root;
+    this._add('');
+  }
+
+  close(): void {
+    for (const watcher of this._watchers.values()) {
+      watcher.close();
+    }
+    this._watchers.clear();
+  }
+
+  _add(dir: string): void {
+    if (this._watchers.has(dir)) return;
+
+    const watcher = fs.watch(path.join(this._root, dir));
+    this._watchers.set(dir, watcher);
+    watcher.on('error', error => this.emit('error', error));
+    watcher.on('change', (type, filename) => {
+      const name = filename === null ? dir : path.join(dir, filename.toString());
+      if (type === 'rename' && filename !== null) this._update(name);
+      this.emit('change', type, name);
+    });
+
+    for (const entry of fs.readdirSync(path.join(this._root, dir), {withFileTypes: true})) {
+      if (entry.isDirectory()) this._add(path.join(dir, entry.name));
+    }
+  }
+
+  _remove(dir: string): void {
+    for (const [name, watcher] of this._watchers) {
+      if (name !== dir && !name.startsWith(dir + path.sep)) continue;
+      watcher.close();
+      this._watchers.delete(name);
+    }
+  }
+
+  // Directories might be removed again before they can be watched
+  _update(name: string): void {
+    try {
+      if (fs.lstatSync(path.join(this._root, name)).isDirectory()) {
+        this._add(name);
+      } else {
+        this._remove(name);
+      }
+    } catch (error) {
+      const code = (error as {code?: string}).code;
+      if (code === 'ENOENT' || code === 'ENOTDIR') {
+        this._remove(name);
+      } else {
+        this.emit('error', error);
+      }
+    }
+  }
+}
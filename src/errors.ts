@@ -0,0 +1,163 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+
+/**
+ * Error for paths that would end up outside of their base directory, or contain characters that are never safe to use.
+ */
+export class UnsafePathError extends Error {
+  base: string;
+  code = 'ERR_UNSAFE_PATH';
+  path: string;
+
+  constructor(message: string, base: string, path: string) {
+    super(message);
+    this.name = 'UnsafePathError';
+    this.base = base;
+    this.path = path;
+  }
+}
+
+/**
+ * Error for locks that are already held by someone else.
+ */
+export class LockedError extends Error {
+  code = 'ELOCKED';
+  path: string;
+
+  constructor(path: string) {
+    super(`Lock is already held: ${path}`);
+    this.name = 'LockedError';
+    this.path = path;
+  }
+}
+
+/**
+ * Error for files that could not be parsed, with the path and position (line and column start at 1) of the problem.
+ */
+export class ParseError extends Error {
+  cause: Error | undefined;
+  code = 'ERR_PARSE';
+  column: number;
+  line: number;
+  path: string;
+
+  constructor(message: string, path: string, line: number, column: number, cause?: Error) {
+    super(`${message} in ${path} at line ${line}, column ${column}`);
+    this.name = 'ParseError';
+    this.cause = cause;
+    this.column = column;
+    this.line = line;
+    this.path = path;
+  }
+}
+
+type SystemError = Error & {code: string; errno?: number; path?: string; syscall: string};
+
+/**
+ * Error for failed file system operations, with the path and `Path` method (`operation`) that failed, and the original
+ * error as `cause`. The `code`, `errno` and `syscall` properties of the original error are preserved.
+ */
+export class PathError extends Error {
+  cause: SystemError;
+  code: string;
+  errno: number | undefined;
+  operation: string;
+  path: string;
+  syscall: string;
+
+  constructor(operation: string, path: string, cause: SystemError) {
+    super(`${operation} failed: ${cause.message}`);
+    this.name = 'PathError';
+    this.cause = cause;
+    this.code = cause.code;
+    this.errno = cause.errno;
+    this.operation = operation;
+    this.path = path;
+    this.syscall = cause.syscall;
+  }
+}
+
+/**
+ * Error for paths that do not exist (`ENOENT`).
+ */
+export class PathNotFoundError extends PathError {
+  constructor(operation: string, path: string, cause: SystemError) {
+    super(operation, path, cause);
+    this.name = 'PathNotFoundError';
+  }
+}
+
+/**
+ * Error for paths that already exist (`EEXIST`, `ENOTEMPTY` and `ERR_FS_CP_EEXIST`).
+ */
+export class PathExistsError extends PathError {
+  constructor(operation: string, path: string, cause: SystemError) {
+    super(operation, path, cause);
+    this.name = 'PathExistsError';
+  }
+}
+
+/**
+ * Error for paths that were expected to be directories (`ENOTDIR` and `ERR_FS_CP_DIR_TO_NON_DIR`).
+ */
+export class NotADirectoryError extends PathError {
+  constructor(operation: string, path: string, cause: SystemError) {
+    super(operation, path, cause);
+    this.name = 'NotADirectoryError';
+  }
+}
+
+/**
+ * Error for paths that were not expected to be directories (`EISDIR`, `ERR_FS_EISDIR` and `ERR_FS_CP_NON_DIR_TO_DIR`).
+ */
+export class IsADirectoryError extends PathError {
+  constructor(operation: string, path: string, cause: SystemError) {
+    super(operation, path, cause);
+    this.name = 'IsADirectoryError';
+  }
+}
+
+/**
+ * Error for operations that are not permitted (`EACCES` and `EPERM`).
+ */
+export class PermissionDeniedError extends PathError {
+  constructor(operation: string, path: string, cause: SystemError) {
+    super(operation, path, cause);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+const ERRORS: Record<string, typeof PathError> = {
+  EACCES: PermissionDeniedError,
+  EEXIST: PathExistsError,
+  EISDIR: IsADirectoryError,
+  ENOENT: PathNotFoundError,
+  ENOTDIR: NotADirectoryError,
+  ENOTEMPTY: PathExistsError,
+  EPERM: PermissionDeniedError,
+  ERR_FS_CP_DIR_TO_NON_DIR: NotADirectoryError,
+  ERR_FS_CP_EEXIST: PathExistsError,
+  ERR_FS_CP_NON_DIR_TO_DIR: IsADirectoryError,
+  ERR_FS_EISDIR: IsADirectoryError
+};
+
+/**
+ * Convert errors from the file system into `PathError` objects of the matching class, all other errors (and errors that
+ * have already been converted) are returned unchanged. System errors without a more specific class (like `EIO` or
+ * `ERR_FS_CP_EINVAL`) become generic `PathError` objects. The path of the original error is preferred, since it might be
+ * a different file than the one the operation was started with.
+ */
+export function pathError(error: unknown, operation: string, path: string): unknown {
+  if (!isSystemError(error)) return error;
+  const ErrorClass = ERRORS[error.code] ?? PathError;
+  return new ErrorClass(operation, typeof error.path === 'string' ? error.path : path, error);
+}
+
+function isSystemError(error: unknown): error is SystemError {
+  if (!(error instanceof Error) || error instanceof PathError) return false;
+  const {code, syscall} = error as Partial<SystemError>;
+  return typeof code === 'string' && typeof syscall === 'string';
+}
@@ -0,0 +1,141 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+import {ParseError} from './errors.js';
+
+const ENV_ASSIGNMENT = /[ \t]*(?:export[ \t]+)?([^\s=#]+)[ \t]*=[ \t]*/y;
+const ENV_BLANK = /[ \t\r]*(?:#[^\n]*)?(?:\n|$)/y;
+const ENV_ESCAPES: Record<string, string> = {n: '\n', r: '\r', t: '\t'};
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const ENV_QUOTED: Record<string, string> = {'\\': '\\\\', '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t'};
+const ENV_REST = /[ \t\r]*(?:#[^\n]*)?(?:\n|$)/y;
+const ENV_SAFE = /^[\w.,/:@%+-]+$/;
+
+/**
+ * Parse `.env` file. Lines contain `NAME=value` assignments (optionally prefixed with `export`), blank lines and lines
+ * starting with `#` are ignored. Unquoted values are trimmed and can be followed by comments, single quoted values are
+ * used verbatim, and double quoted values support `\n`, `\r` and `\t` escapes. Quoted values may span multiple lines.
+ */
+export function parseEnv(text: string, file: string): Record<string, string> {
+  text = stripBOM(text);
+  const vars: Record<string, string> = {};
+
+  let pos = 0;
+  while (pos < text.length) {
+    ENV_BLANK.lastIndex = pos;
+    if (ENV_BLANK.exec(text) !== null) {
+      pos = ENV_BLANK.lastIndex;
+      continue;
+    }
+
+    ENV_ASSIGNMENT.lastIndex = pos;
+    const match = ENV_ASSIGNMENT.exec(text);
+    if (match === null) throw parseError('Invalid line', text, file, pos + text.substring(pos).search(/\S/));
+    const name = match[1];
+    if (!ENV_NAME.test(name))
+      throw parseError('Invalid variable name', text, file, match.index + match[0].indexOf(name));
+    pos = ENV_ASSIGNMENT.lastIndex;
+
+    const quote = text[pos];
+    if (quote === '"' || quote === "'") {
+      let value = '';
+      let i = pos + 1;
+      for (; i < text.length && text[i] !== quote; i++) {
+        if (quote === '"' && text[i] === '\\' && i + 1 < text.length) {
+          i++;
+          value += ENV_ESCAPES[text[i]] ?? text[i];
+        } else {
+          value += text[i];
+        }
+      }
+      if (i >= text.length) throw parseError('Unterminated quoted value', text, file, pos);
+
+      ENV_REST.lastIndex = i + 1;
+      if (ENV_REST.exec(text) === null) throw parseError('Unexpected character after quoted value', text, file, i + 1);
+      pos = ENV_REST.lastIndex;
+      vars[name] = value;
+    } else {
+      const end = text.indexOf('\n', pos);
+      const lineEnd = end === -1 ? text.length : end;
+      vars[name] = text
+        .substring(pos, lineEnd)
+        .replace(/(?:^|[ \t]+)#.*$/, '')
+        .trim();
+      pos = lineEnd + 1;
+    }
+  }
+
+  return vars;
+}
+
+/**
+ * Parse JSON, errors are thrown as `ParseError` objects with the position of the problem. The `line` can be used to
+ * offset line numbers, for documents that are part of a larger file.
+ */
+export function parseJSON(text: string, file: string, line = 1): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const [errorLine, column] = textPosition(text, jsonErrorOffset(text));
+    throw new ParseError('Invalid JSON', file, line + errorLine - 1, column, error as Error);
+  }
+}
+
+/**
+ * Serialize environment variables in `.env` format, values are double quoted when necessary.
+ */
+export function stringifyEnv(vars: Record<string, string>): string {
+  let text = '';
+  for (const [name, value] of Object.entries(vars)) {
+    if (!ENV_NAME.test(name)) throw new TypeError(`Invalid environment variable name: ${name}`);
+    const quoted = ENV_SAFE.test(value) ? value : `"${value.replace(/[\\"\n\r\t]/g, char => ENV_QUOTED[char])}"`;
+    text += `${name}=${quoted}\n`;
+  }
+  return text;
+}
+
+/**
+ * Remove UTF-8 byte order mark from the beginning of text.
+ */
+export function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+}
+
+// Invalid JSON stays invalid when more characters are added, so the shortest invalid prefix can be found with a binary
+// search (error messages of "JSON.parse" do not always contain a position)
+function jsonErrorOffset(text: string): number {
+  let low = 1;
+  let high = text.length + 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (jsonIsInvalid(text.substring(0, middle))) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low - 1;
+}
+
+function jsonIsInvalid(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return false;
+  } catch (error) {
+    // Errors at the very end only mean that the text is incomplete
+    const message = (error as Error).message;
+    return message !== 'Unexpected end of JSON input' && message.match(/at position (\d+)/)?.[1] !== `${text.length}`;
+  }
+}
+
+function parseError(message: string, text: string, file: string, offset: number): ParseError {
+  const [line, column] = textPosition(text, offset);
+  return new ParseError(message, file, line, column);
+}
+
+function textPosition(text: string, offset: number): [number, number] {
+  const before = text.substring(0, offset);
+  return [before.split('\n').length, offset - before.lastIndexOf('\n')];
+}
@@ -0,0 +1,304 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+
+const GLOBSTAR = Symbol('globstar');
+
+type Segment = string | RegExp | typeof GLOBSTAR;
+
+interface GlobOptions {
+  braces?: boolean;
+  dot?: boolean;
+}
+
+/**
+ * Glob pattern matcher for relative paths, split into their segments.
+ */
+export class Glob {
+  _dot: boolean;
+  _exclude: Segment[][];
+  _include: Segment[][];
+
+  constructor(include: string | string[] = [], exclude: string | string[] = [], options: GlobOptions = {}) {
+    this._dot = options.dot === true;
+
+    const positive: string[] = [];
+    const negative: string[] = [];
+    for (const pattern of typeof include === 'string' ? [include] : include) {
+      if (pattern.startsWith('!')) {
+        negative.push(pattern.substring(1));
+      } else {
+        positive.push(pattern);
+      }
+    }
+    negative.push(...(typeof exclude === 'string' ? [exclude] : exclude));
+
+    const braces = options.braces !== false;
+    this._include = compilePatterns(positive, braces);
+    this._exclude = compilePatterns(negative, braces);
+  }
+
+  /**
+   * Check if path is excluded, excluded directories do not need to be descended into.
+   */
+  isExcluded(parts: string[]): boolean {
+    return this._exclude.some(pattern => matchParts(pattern, 0, parts, 0, false, true));
+  }
+
+  /**
+   * Check if path is matched by at least one include pattern and not excluded.
+   */
+  isIncluded(parts: string[]): boolean {
+    if (this.isExcluded(parts)) return false;
+    if (this._include.length === 0) return true;
+    return this._include.some(pattern => matchParts(pattern, 0, parts, 0, false, this._dot));
+  }
+
+  /**
+   * Check if directory could contain paths matched by an include pattern.
+   */
+  mightContain(parts: string[]): boolean {
+    if (this.isExcluded(parts)) return false;
+    if (this._include.length === 0) return true;
+    return this._include.some(pattern => matchParts(pattern, 0, parts, 0, true, this._dot));
+  }
+}
+
+/**
+ * Expand braces in glob pattern, supports lists like `{a,b}` and ranges like `{1..3}` or `{a..c}`.
+ */
+export function expandBraces(pattern: string): string[] {
+  for (let start = 0; start < pattern.length; start++) {
+    const char = pattern[start];
+    if (char === '\\') {
+      start++;
+      continue;
+    }
+    if (char !== '{') continue;
+
+    const end = findClosingBrace(pattern, start);
+    if (end === -1) return [pattern];
+
+    const alternatives = expandAlternatives(pattern.substring(start + 1, end));
+    if (alternatives === null) continue;
+
+    const prefix = pattern.substring(0, start);
+    const suffixes = expandBraces(pattern.substring(end + 1));
+    const expanded: string[] = [];
+    for (const alternative of alternatives) {
+      for (const inner of expandBraces(alternative)) {
+        for (const suffix of suffixes) {
+          expanded.push(prefix + inner + suffix);
+        }
+      }
+    }
+    return expanded;
+  }
+
+  return [pattern];
+}
+
+function compilePatterns(patterns: string[], braces: boolean): Segment[][] {
+  const compiled: Segment[][] = [];
+  for (const pattern of patterns) {
+    for (const expanded of braces === true ? expandBraces(pattern) : [pattern]) {
+      compiled.push(
+        expanded
+          .split('/')
+          .filter(segment => segment !== '' && segment !== '.')
+          .map(segment => compileSegment(segment))
+      );
+    }
+  }
+  return compiled;
+}
+
+function compileSegment(segment: string): Segment {
+  if (segment === '**') return GLOBSTAR;
+  if (!/[*?[\\]/.test(segment)) return segment;
+
+  let regex = '';
+  let isMagic = false;
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+
+    if (char === '\\' && i + 1 < segment.length) {
+      regex += escapeRegExp(segment[++i]);
+    } else if (char === '*') {
+      while (segment[i + 1] === '*') i++;
+      regex += '.*';
+      isMagic = true;
+    } else if (char === '?') {
+      regex += '.';
+      isMagic = true;
+    } else if (char === '[') {
+      const end = findClosingBracket(segment, i);
+      if (end === -1) {
+        regex += '\\[';
+      } else {
+        regex += compileClass(segment.substring(i + 1, end));
+        i = end;
+        isMagic = true;
+      }
+    } else {
+      regex += escapeRegExp(char);
+    }
+  }
+
+  if (!isMagic) return segment.replace(/\\(.)/g, '$1');
+  return new RegExp(`^${regex}$`, 's');
+}
+
+function compileClass(body: string): string {
+  let negate = false;
+  if (body.startsWith('!') || body.startsWith('^')) {
+    negate = true;
+    body = body.substring(1);
+  }
+
+  let regex = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\' && i + 1 < body.length) {
+      regex += escapeRegExp(body[++i]);
+    } else if (char === '-' && regex !== '' && i + 1 < body.length) {
+      regex += '-';
+    } else {
+      regex += escapeRegExp(char);
+    }
+  }
+
+  return negate ? `[^${regex}]` : `[${regex}]`;
+}
+
+/**
+ * Escape all characters with a special meaning in regular expressions.
+ */
+export function escapeRegExp(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+}
+
+function expandAlternatives(body: string): string[] | null {
+  const alternatives: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '\\') {
+      current += char + (body[++i] ?? '');
+      continue;
+    }
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if (char === ',' && depth === 0) {
+      alternatives.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  alternatives.push(current);
+  if (alternatives.length > 1) return alternatives;
+
+  return expandRange(body);
+}
+
+function expandRange(body: string): string[] | null {
+  const numeric = body.match(/^(-?\d+)\.\.(-?\d+)$/);
+  if (numeric !== null) {
+    const start = parseInt(numeric[1]);
+    const end = parseInt(numeric[2]);
+    const step = start <= end ? 1 : -1;
+    const range: string[] = [];
+    for (let i = start; i !== end + step; i += step) {
+      range.push(i.toString());
+    }
+    return range;
+  }
+
+  const alpha = body.match(/^([a-zA-Z])\.\.([a-zA-Z])$/);
+  if (alpha !== null) {
+    const start = alpha[1].charCodeAt(0);
+    const end = alpha[2].charCodeAt(0);
+    const step = start <= end ? 1 : -1;
+    const range: string[] = [];
+    for (let i = start; i !== end + step; i += step) {
+      range.push(String.fromCharCode(i));
+    }
+    return range;
+  }
+
+  return null;
+}
+
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function findClosingBracket(segment: string, start: number): number {
+  let i = start + 1;
+  if (segment[i] === '!' || segment[i] === '^') i++;
+  if (segment[i] === ']') i++;
+  for (; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === ']') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function isHidden(part: string): boolean {
+  return part.startsWith('.');
+}
+
+function matchParts(
+  pattern: Segment[],
+  patternIndex: number,
+  parts: string[],
+  partIndex: number,
+  partial: boolean,
+  dot: boolean
+): boolean {
+  while (patternIndex < pattern.length && partIndex < parts.length) {
+    const segment = pattern[patternIndex];
+
+    if (segment === GLOBSTAR) {
+      if (partial === true) return true;
+      for (let i = partIndex; i <= parts.length; i++) {
+        if (matchParts(pattern, patternIndex + 1, parts, i, partial, dot)) return true;
+        if (i < parts.length && dot === false && isHidden(parts[i])) return false;
+      }
+      return false;
+    }
+
+    if (!matchSegment(segment, parts[partIndex], dot)) return false;
+    patternIndex++;
+    partIndex++;
+  }
+
+  if (partIndex < parts.length) return false;
+  if (partial === true) return patternIndex < pattern.length;
+  return pattern.slice(patternIndex).every(segment => segment === GLOBSTAR);
+}
+
+function matchSegment(segment: string | RegExp, part: string, dot: boolean): boolean {
+  if (typeof segment === 'string') return segment === part;
+  if (dot === false && isHidden(part)) return false;
+  return segment.test(part);
+}
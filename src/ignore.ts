@@ -0,0 +1,76 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+import {Glob} from './glob.js';
+
+interface IgnoreRule {
+  base: string[];
+  dirOnly: boolean;
+  glob: Glob;
+  negate: boolean;
+}
+
+/**
+ * Ignore rules collected from `.gitignore` style files, nested files are added after their parents and take precedence.
+ */
+export class Ignore {
+  _rules: IgnoreRule[];
+
+  constructor(rules: IgnoreRule[] = []) {
+    this._rules = rules;
+  }
+
+  /**
+   * Create a new `Ignore` object with the rules of an ignore file in the directory `base` added.
+   */
+  add(content: string, base: string[]): Ignore {
+    const rules = [...this._rules];
+    for (const line of content.split(/\r?\n/)) {
+      const rule = parseLine(line, base);
+      if (rule !== null) rules.push(rule);
+    }
+    return new Ignore(rules);
+  }
+
+  /**
+   * Check if path is ignored, the last matching rule wins.
+   */
+  isIgnored(parts: string[], isDir: boolean): boolean {
+    for (let i = this._rules.length - 1; i >= 0; i--) {
+      const rule = this._rules[i];
+      if (rule.dirOnly === true && isDir === false) continue;
+      if (parts.length <= rule.base.length || rule.base.some((part, j) => parts[j] !== part)) continue;
+      if (rule.glob.isExcluded(parts.slice(rule.base.length))) return rule.negate === false;
+    }
+    return false;
+  }
+}
+
+function parseLine(line: string, base: string[]): IgnoreRule | null {
+  if (line.startsWith('#')) return null;
+
+  // Trailing spaces are ignored unless they are escaped with a backslash
+  let pattern = line.replace(/(?<!\\)[ \t]+$/, '');
+  if (pattern === '') return null;
+
+  const negate = pattern.startsWith('!');
+  if (negate === true) pattern = pattern.substring(1);
+
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly === true) pattern = pattern.replace(/\/+$/, '');
+  if (pattern === '') return null;
+
+  // Patterns without a slash match at any level, all others are relative to the ignore file
+  if (pattern.includes('/')) {
+    pattern = pattern.replace(/^\/+/, '');
+  } else {
+    pattern = `**/${pattern}`;
+  }
+
+  // A trailing "/**" matches everything inside a directory, but not the directory itself
+  if (pattern.endsWith('/**')) pattern = `${pattern.substring(0, pattern.length - 3)}/*/**`;
+
+  return {base, dirOnly, glob: new Glob([], pattern, {braces: false, dot: true}), negate};
+}
@@ -0,0 +1,756 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+import type {
+  AppendFileOptions,
+  Backend,
+  DirectoryEntry,
+  ReadFileOptions,
+  ReadStreamOptions,
+  StreamOptions,
+  TimeLike,
+  Watcher,
+  WriteFileOptions
+} from './backend.js';
+import type fsPromises from 'node:fs/promises';
+import crypto from 'node:crypto';
+import EventEmitter from 'node:events';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+const S_IFREG = 0o100000;
+
+const MESSAGES: Record<string, string> = {
+  EACCES: 'permission denied',
+  EEXIST: 'file already exists',
+  EINVAL: 'invalid argument',
+  EISDIR: 'illegal operation on a directory',
+  ELOOP: 'too many symbolic links encountered',
+  ENOENT: 'no such file or directory',
+  ENOSYS: 'function not implemented',
+  ENOTDIR: 'not a directory',
+  ENOTEMPTY: 'directory not empty'
+};
+
+interface Node {
+  atime: Date;
+  birthtime: Date;
+  children: Map<string, Node>;
+  ctime: Date;
+  data: Buffer;
+  gid: number;
+  ino: number;
+  mode: number;
+  mtime: Date;
+  target: string;
+  type: 'dir' | 'file' | 'symlink';
+  uid: number;
+}
+
+interface Lookup {
+  name: string;
+  node: Node | undefined;
+  parent: Node;
+  path: string;
+}
+
+interface OpenFile {
+  append: boolean;
+  node: Node;
+  path: string;
+  position: number;
+}
+
+type Callback<T = void> = (error: Error | null, value?: T) => void;
+
+/**
+ * In-memory backend, for tests that should not touch the real file system.
+ * @example
+ * // Use in-memory backend for all paths
+ * Path.backend = new MemoryBackend();
+ */
+export class MemoryBackend implements Backend {
+  _files = new Map<number, OpenFile>();
+  _ino = 1;
+  _nextFd = 1000;
+  _roots = new Map<string, Node>();
+  _watchers = new Set<MemoryWatcher>();
+
+  constructor() {
+    this.mkdirSync(os.tmpdir(), {recursive: true});
+  }
+
+  async access(path: string, mode?: number): Promise<void> {
+    this.accessSync(path, mode);
+  }
+
+  accessSync(path: string, mode = fs.constants.F_OK): void {
+    const node = this._lookup(path, 'access', true).node;
+    if (node === undefined) throw createError('ENOENT', 'access', path);
+    if ((mode & fs.constants.R_OK) !== 0 && (node.mode & 0o400) === 0) throw createError('EACCES', 'access', path);
+    if ((mode & fs.constants.W_OK) !== 0 && (node.mode & 0o200) === 0) throw createError('EACCES', 'access', path);
+    if ((mode & fs.constants.X_OK) !== 0 && (node.mode & 0o100) === 0) throw createError('EACCES', 'access', path);
+  }
+
+  async appendFile(path: string, data: string | Uint8Array, options?: AppendFileOptions): Promise<void> {
+    this.appendFileSync(path, data, options);
+  }
+
+  appendFileSync(path: string, data: string | Uint8Array, options?: AppendFileOptions): void {
+    const opts = typeof options === 'string' ? {encoding: options} : (options ?? {});
+    this.writeFileSync(path, data, {...opts, flag: opts.flag ?? 'a'});
+  }
+
+  async chmod(path: string, mode: string | number): Promise<void> {
+    this.chmodSync(path, mode);
+  }
+
+  chmodSync(path: string, mode: string | number): void {
+    const node = this._existing(path, 'chmod', true);
+    node.mode = parseMode(mode) & 0o7777;
+    node.ctime = new Date();
+    this._notify('change', path);
+  }
+
+  async chown(path: string, uid: number, gid: number): Promise<void> {
+    this.chownSync(path, uid, gid);
+  }
+
+  chownSync(path: string, uid: number, gid: number): void {
+    const node = this._existing(path, 'chown', true);
+    node.uid = uid;
+    node.gid = gid;
+    node.ctime = new Date();
+    this._notify('change', path);
+  }
+
+  async copyFile(source: string, destination: string, flags?: number): Promise<void> {
+    this.copyFileSync(source, destination, flags);
+  }
+
+  copyFileSync(source: string, destination: string, flags = 0): void {
+    const node = this._existing(source, 'copyfile', true);
+    if (node.type === 'dir') throw createError('EISDIR', 'copyfile', source);
+    const flag = (flags & fs.constants.COPYFILE_EXCL) !== 0 ? 'wx' : 'w';
+    this.writeFileSync(destination, node.data, {flag, mode: node.mode});
+  }
+
+  async cp(source: string, destination: string, options: fs.CopyOptions = {}): Promise<void> {
+    const filter = options.filter;
+    if (filter !== undefined && (await filter(source, destination)) !== true) return;
+
+    const node = this._existing(source, 'cp', options.dereference === true);
+    if (node.type === 'dir') {
+      if (options.recursive !== true) throw createError('EISDIR', 'cp', source);
+      this.mkdirSync(destination, {mode: node.mode, recursive: true});
+      for (const name of node.children.keys()) {
+        await this.cp(path.join(source, name), path.join(destination, name), options);
+      }
+    } else {
+      this._copyNode(node, source, destination, options);
+    }
+  }
+
+  cpSync(source: string, destination: string, options: fs.CopySyncOptions = {}): void {
+    const filter = options.filter;
+    if (filter !== undefined && filter(source, destination) !== true) return;
+
+    const node = this._existing(source, 'cp', options.dereference === true);
+    if (node.type === 'dir') {
+      if (options.recursive !== true) throw createError('EISDIR', 'cp', source);
+      this.mkdirSync(destination, {mode: node.mode, recursive: true});
+      for (const name of node.children.keys()) {
+        this.cpSync(path.join(source, name), path.join(destination, name), options);
+      }
+    } else {
+      this._copyNode(node, source, destination, options);
+    }
+  }
+
+  createReadStream(path: string, options?: BufferEncoding | ReadStreamOptions): fs.ReadStream {
+    const opts = typeof options === 'string' ? {encoding: options} : (options ?? {});
+    return fs.createReadStream(path, {...opts, fs: this._streamFs()} as any);
+  }
+
+  createWriteStream(path: string, options?: BufferEncoding | StreamOptions): fs.WriteStream {
+    const opts = typeof options === 'string' ? {encoding: options} : (options ?? {});
+    return fs.createWriteStream(path, {...opts, fs: this._streamFs()} as any);
+  }
+
+  async fsync(path: string): Promise<void> {
+    this.fsyncSync(path);
+  }
+
+  fsyncSync(path: string): void {
+    this._existing(path, 'fsync', true);
+  }
+
+  async lstat(path: string, options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats> {
+    return this.lstatSync(path, options);
+  }
+
+  lstatSync(path: string, options?: fs.StatOptions): fs.Stats {
+    if (options?.bigint === true) throw createError('ENOSYS', 'lstat', path);
+    return new MemoryStats(this._existing(path, 'lstat', false));
+  }
+
+  async mkdir(path: string, options?: fs.MakeDirectoryOptions): Promise<string | undefined> {
+    return this.mkdirSync(path, options);
+  }
+
+  mkdirSync(dir: string, options: fs.MakeDirectoryOptions = {}): string | undefined {
+    const mode = options.mode === undefined ? 0o755 : parseMode(options.mode) & 0o7777;
+
+    if (options.recursive !== true) {
+      const {node, parent, name} = this._lookup(dir, 'mkdir', false);
+      if (node !== undefined) throw createError('EEXIST', 'mkdir', dir);
+      this._link(parent, name, this._createNode('dir', mode), dir);
+      return undefined;
+    }
+
+    let first: string | undefined;
+    const {root, parts} = splitPath(dir);
+    let current = root;
+    for (const part of parts) {
+      current = path.join(current, part);
+      const {node, parent, name} = this._lookup(current, 'mkdir', true);
+      if (node === undefined) {
+        this._link(parent, name, this._createNode('dir', mode), current);
+        first ??= current;
+      } else if (node.type !== 'dir') {
+        throw createError(current === path.resolve(dir) ? 'EEXIST' : 'ENOTDIR', 'mkdir', dir);
+      }
+    }
+    return first;
+  }
+
+  async mkdtemp(prefix: string): Promise<string> {
+    return this.mkdtempSync(prefix);
+  }
+
+  mkdtempSync(prefix: string): string {
+    let dir: string;
+    do {
+      dir = prefix + crypto.randomBytes(3).toString('hex');
+    } while (this._lookup(dir, 'mkdtemp', false).node !== undefined);
+    this.mkdirSync(dir, {mode: 0o700});
+    return dir;
+  }
+
+  async open(path: string): Promise<fsPromises.FileHandle> {
+    throw createError('ENOSYS', 'open', path);
+  }
+
+  async opendir(path: string): Promise<AsyncIterable<DirectoryEntry>> {
+    const entries = this.opendirSync(path);
+    return (async function* () {
+      yield* entries;
+    })();
+  }
+
+  opendirSync(path: string): DirectoryEntry[] {
+    return this._entries(path, 'opendir');
+  }
+
+  async readdir(path: string): Promise<DirectoryEntry[]> {
+    return this.readdirSync(path);
+  }
+
+  readdirSync(path: string): DirectoryEntry[] {
+    return this._entries(path, 'scandir');
+  }
+
+  async readFile(path: string, options?: ReadFileOptions): Promise<string | Buffer> {
+    if (typeof options === 'object' && options?.signal?.aborted === true) throw createAbortError();
+    return this.readFileSync(path, options);
+  }
+
+  readFileSync(path: string, options?: ReadFileOptions): string | Buffer {
+    const encoding = typeof options === 'string' ? options : options?.encoding;
+    const node = this._existing(path, 'open', true);
+    if (node.type === 'dir') throw createError('EISDIR', 'read', path);
+    node.atime = new Date();
+    return encoding === undefined || encoding === null ? Buffer.from(node.data) : node.data.toString(encoding);
+  }
+
+  async readlink(path: string): Promise<string> {
+    return this.readlinkSync(path);
+  }
+
+  readlinkSync(path: string): string {
+    const node = this._existing(path, 'readlink', false);
+    if (node.type !== 'symlink') throw createError('EINVAL', 'readlink', path);
+    return node.target;
+  }
+
+  async realpath(path: string): Promise<string> {
+    return this.realpathSync(path);
+  }
+
+  realpathSync(file: string): string {
+    const lookup = this._lookup(file, 'realpath', true);
+    if (lookup.node === undefined) throw createError('ENOENT', 'realpath', file);
+    return lookup.path;
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    this.renameSync(oldPath, newPath);
+  }
+
+  renameSync(oldPath: string, newPath: string): void {
+    const from = this._lookup(oldPath, 'rename', false);
+    if (from.node === undefined) throw createError('ENOENT', 'rename', oldPath);
+    const to = this._lookup(newPath, 'rename', false);
+    if (to.node === from.node) return;
+
+    if (from.node.type === 'dir' && (to.path + path.sep).startsWith(from.path + path.sep)) {
+      throw createError('EINVAL', 'rename', oldPath);
+    }
+    if (to.node !== undefined) {
+      if (from.node.type === 'dir' && to.node.type !== 'dir') throw createError('ENOTDIR', 'rename', oldPath);
+      if (from.node.type !== 'dir' && to.node.type === 'dir') throw createError('EISDIR', 'rename', oldPath);
+      if (to.node.type === 'dir' && to.node.children.size > 0) throw createError('ENOTEMPTY', 'rename', oldPath);
+    }
+
+    from.parent.children.delete(from.name);
+    from.parent.mtime = from.parent.ctime = new Date();
+    this._notify('rename', from.path);
+    this._link(to.parent, to.name, from.node, to.path);
+  }
+
+  async rm(path: string, options?: fs.RmOptions): Promise<void> {
+    this.rmSync(path, options);
+  }
+
+  rmSync(path: string, options: fs.RmOptions = {}): void {
+    const {node, parent, name, path: full} = this._lookup(path, 'rm', false);
+    if (node === undefined) {
+      if (options.force === true) return;
+      throw createError('ENOENT', 'rm', path);
+    }
+    if (node.type === 'dir' && options.recursive !== true) {
+      const error = createError('EISDIR', 'rm', path);
+      error.code = 'ERR_FS_EISDIR';
+      throw error;
+    }
+
+    parent.children.delete(name);
+    parent.mtime = parent.ctime = new Date();
+    this._notify('rename', full);
+  }
+
+  async stat(path: string, options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats> {
+    return this.statSync(path, options);
+  }
+
+  statSync(path: string, options?: fs.StatOptions): fs.Stats {
+    if (options?.bigint === true) throw createError('ENOSYS', 'stat', path);
+    return new MemoryStats(this._existing(path, 'stat', true));
+  }
+
+  async symlink(target: string, path: string): Promise<void> {
+    this.symlinkSync(target, path);
+  }
+
+  symlinkSync(target: string, path: string): void {
+    const {node, parent, name} = this._lookup(path, 'symlink', false);
+    if (node !== undefined) throw createError('EEXIST', 'symlink', path);
+    const link = this._createNode('symlink', 0o777);
+    link.target = target;
+    this._link(parent, name, link, path);
+  }
+
+  async truncate(path: string, len?: number): Promise<void> {
+    this.truncateSync(path, len);
+  }
+
+  truncateSync(path: string, len = 0): void {
+    const node = this._existing(path, 'open', true);
+    if (node.type === 'dir') throw createError('EISDIR', 'open', path);
+    const data = Buffer.alloc(len);
+    node.data.copy(data, 0, 0, Math.min(len, node.data.length));
+    node.data = data;
+    node.mtime = node.ctime = new Date();
+    this._notify('change', path);
+  }
+
+  async utimes(path: string, atime: TimeLike, mtime: TimeLike): Promise<void> {
+    this.utimesSync(path, atime, mtime);
+  }
+
+  utimesSync(path: string, atime: TimeLike, mtime: TimeLike): void {
+    const node = this._existing(path, 'utime', true);
+    node.atime = toDate(atime);
+    node.mtime = toDate(mtime);
+    node.ctime = new Date();
+    this._notify('change', path);
+  }
+
+  watch(path: string, options: {recursive?: boolean} = {}): Watcher {
+    const {node, path: root} = this._lookup(path, 'watch', true);
+    if (node === undefined) throw createError('ENOENT', 'watch', path);
+    const watcher = new MemoryWatcher(root, options.recursive === true);
+    watcher.once('close', () => this._watchers.delete(watcher));
+    this._watchers.add(watcher);
+    return watcher;
+  }
+
+  async writeFile(path: string, data: string | Uint8Array, options?: WriteFileOptions): Promise<void> {
+    if (typeof options === 'object' && options?.signal?.aborted === true) throw createAbortError();
+    this.writeFileSync(path, data, options);
+  }
+
+  writeFileSync(path: string, data: string | Uint8Array, options?: WriteFileOptions): void {
+    const opts = typeof options === 'string' ? {encoding: options} : (options ?? {});
+    const flag = typeof opts.flag === 'string' ? opts.flag : 'w';
+    const buffer = typeof data === 'string' ? Buffer.from(data, opts.encoding ?? 'utf8') : Buffer.from(data);
+
+    const {node} = this._openFile(path, flag, opts.mode);
+    node.data = flag.startsWith('a') ? Buffer.concat([node.data, buffer]) : buffer;
+    node.mtime = node.ctime = new Date();
+    this._notify('change', path);
+  }
+
+  _copyNode(node: Node, source: string, destination: string, options: fs.CopyOptions): void {
+    const existing = this._lookup(destination, 'cp', false).node;
+    if (existing !== undefined && options.force === false) {
+      if (options.errorOnExist === true) throw createError('EEXIST', 'cp', destination);
+      return;
+    }
+    if (existing?.type === 'dir') throw createError('EISDIR', 'cp', destination);
+    if (existing !== undefined) this.rmSync(destination);
+    this.mkdirSync(path.dirname(destination), {recursive: true});
+
+    if (node.type === 'symlink') {
+      const target = options.verbatimSymlinks === true ? node.target : path.resolve(path.dirname(source), node.target);
+      this.symlinkSync(target, destination);
+    } else {
+      this.writeFileSync(destination, node.data, {mode: node.mode});
+    }
+    if (options.preserveTimestamps === true) {
+      const copy = this._existing(destination, 'cp', false);
+      copy.atime = node.atime;
+      copy.mtime = node.mtime;
+    }
+  }
+
+  _createNode(type: Node['type'], mode: number): Node {
+    const now = new Date();
+    return {
+      atime: now,
+      birthtime: now,
+      children: new Map(),
+      ctime: now,
+      data: Buffer.alloc(0),
+      gid: process.getgid?.() ?? 0,
+      ino: this._ino++,
+      mode,
+      mtime: now,
+      target: '',
+      type,
+      uid: process.getuid?.() ?? 0
+    };
+  }
+
+  _entries(file: string, syscall: string): DirectoryEntry[] {
+    const node = this._existing(file, syscall, true);
+    if (node.type !== 'dir') throw createError('ENOTDIR', syscall, file);
+    return [...node.children].map(([name, child]) => new MemoryDirectoryEntry(name, child));
+  }
+
+  _existing(file: string, syscall: string, follow: boolean): Node {
+    const node = this._lookup(file, syscall, follow).node;
+    if (node === undefined) throw createError('ENOENT', syscall, file);
+    return node;
+  }
+
+  _link(parent: Node, name: string, node: Node, file: string): void {
+    parent.children.set(name, node);
+    parent.mtime = parent.ctime = new Date();
+    this._notify('rename', file);
+  }
+
+  _lookup(file: string, syscall: string, follow: boolean, depth = 0): Lookup {
+    if (depth > 40) throw createError('ELOOP', syscall, file);
+
+    const {root, parts} = splitPath(file);
+    let dir = this._root(root);
+
+    let current = root;
+    for (let i = 0; i < parts.length; i++) {
+      const name = parts[i];
+      const node = dir.children.get(name);
+      const isLast = i === parts.length - 1;
+
+      if (isLast === true && (node?.type !== 'symlink' || follow === false)) {
+        return {name, node, parent: dir, path: path.join(current, name)};
+      }
+      if (node === undefined) throw createError('ENOENT', syscall, file);
+
+      if (node.type === 'symlink') {
+        const target = path.resolve(current, node.target, ...parts.slice(i + 1));
+        return this._lookup(target, syscall, follow, depth + 1);
+      }
+      if (node.type !== 'dir') throw createError('ENOTDIR', syscall, file);
+
+      dir = node;
+      current = path.join(current, name);
+    }
+
+    return {name: '', node: dir, parent: dir, path: root};
+  }
+
+  _notify(type: 'change' | 'rename', file: string): void {
+    if (this._watchers.size === 0) return;
+    const full = path.resolve(file);
+    for (const watcher of this._watchers) {
+      watcher.notify(type, full);
+    }
+  }
+
+  _openFile(file: string, flag: string, mode?: fs.Mode): {node: Node; path: string} {
+    const lookup = this._lookup(file, 'open', true);
+    let node = lookup.node;
+
+    if (node === undefined) {
+      if (!/[wa]/.test(flag)) throw createError('ENOENT', 'open', file);
+      node = this._createNode('file', mode === undefined ? 0o644 : parseMode(mode) & 0o7777);
+      this._link(lookup.parent, lookup.name, node, lookup.path);
+    } else if (flag.includes('x')) {
+      throw createError('EEXIST', 'open', file);
+    } else if (node.type === 'dir') {
+      throw createError('EISDIR', 'open', file);
+    } else if (flag.startsWith('w')) {
+      node.data = Buffer.alloc(0);
+    }
+
+    return {node, path: lookup.path};
+  }
+
+  _root(root: string): Node {
+    let dir = this._roots.get(root);
+    if (dir === undefined) {
+      dir = this._createNode('dir', 0o755);
+      this._roots.set(root, dir);
+    }
+    return dir;
+  }
+
+  _streamFs(): Record<string, (...args: any[]) => void> {
+    return {
+      open: (file: string, flags: string | number, mode: fs.Mode | undefined, cb: Callback<number>) => {
+        try {
+          const flag = typeof flags === 'string' ? flags : 'r';
+          const {node, path} = this._openFile(file, flag, mode);
+          const fd = this._nextFd++;
+          this._files.set(fd, {append: flag.startsWith('a'), node, path, position: 0});
+          process.nextTick(cb, null, fd);
+        } catch (error) {
+          process.nextTick(cb, error);
+        }
+      },
+      read: (
+        fd: number,
+        buffer: Buffer,
+        offset: number,
+        length: number,
+        position: number | null,
+        cb: Callback<number>
+      ) => {
+        const file = this._files.get(fd);
+        if (file === undefined) return process.nextTick(cb, createError('EBADF', 'read'));
+        const start = typeof position === 'number' && position >= 0 ? position : file.position;
+        const bytes = file.node.data.copy(buffer, offset, start, Math.min(start + length, file.node.data.length));
+        if (typeof position !== 'number' || position < 0) file.position = start + bytes;
+        process.nextTick(cb, null, bytes, buffer);
+      },
+      write: (
+        fd: number,
+        buffer: Buffer,
+        offset: number,
+        length: number,
+        position: number | null,
+        cb: Callback<number>
+      ) => {
+        const file = this._files.get(fd);
+        if (file === undefined) return process.nextTick(cb, createError('EBADF', 'write'));
+        const node = file.node;
+        const start = file.append ? node.data.length : typeof position === 'number' ? position : file.position;
+        const end = start + length;
+        if (end > node.data.length) {
+          const data = Buffer.alloc(end);
+          node.data.copy(data);
+          node.data = data;
+        }
+        buffer.copy(node.data, start, offset, offset + length);
+        if (typeof position !== 'number') file.position = end;
+        node.mtime = node.ctime = new Date();
+        this._notify('change', file.path);
+        process.nextTick(cb, null, length, buffer);
+      },
+      close: (fd: number, cb: Callback) => {
+        this._files.delete(fd);
+        process.nextTick(cb, null);
+      }
+    };
+  }
+}
+
+class MemoryDirectoryEntry implements DirectoryEntry {
+  name: string;
+  _node: Node;
+
+  constructor(name: string, node: Node) {
+    this.name = name;
+    this._node = node;
+  }
+
+  isDirectory(): boolean {
+    return this._node.type === 'dir';
+  }
+
+  isFile(): boolean {
+    return this._node.type === 'file';
+  }
+
+  isSymbolicLink(): boolean {
+    return this._node.type === 'symlink';
+  }
+}
+
+class MemoryStats implements fs.Stats {
+  atime: Date;
+  atimeMs: number;
+  birthtime: Date;
+  birthtimeMs: number;
+  blksize = 4096;
+  blocks: number;
+  ctime: Date;
+  ctimeMs: number;
+  dev = 1;
+  gid: number;
+  ino: number;
+  mode: number;
+  mtime: Date;
+  mtimeMs: number;
+  nlink: number;
+  rdev = 0;
+  size: number;
+  uid: number;
+
+  constructor(node: Node) {
+    const type = node.type === 'dir' ? S_IFDIR : node.type === 'symlink' ? S_IFLNK : S_IFREG;
+    this.atime = new Date(node.atime);
+    this.atimeMs = node.atime.getTime();
+    this.birthtime = new Date(node.birthtime);
+    this.birthtimeMs = node.birthtime.getTime();
+    this.ctime = new Date(node.ctime);
+    this.ctimeMs = node.ctime.getTime();
+    this.gid = node.gid;
+    this.ino = node.ino;
+    this.mode = type | node.mode;
+    this.mtime = new Date(node.mtime);
+    this.mtimeMs = node.mtime.getTime();
+    this.uid = node.uid;
+
+    if (node.type === 'dir') {
+      this.nlink = 2 + [...node.children.values()].filter(child => child.type === 'dir').length;
+      this.size = 4096;
+    } else {
+      this.nlink = 1;
+      this.size = node.type === 'symlink' ? Buffer.byteLength(node.target) : node.data.length;
+    }
+    this.blocks = Math.ceil(this.size / 512);
+  }
+
+  isBlockDevice(): boolean {
+    return false;
+  }
+
+  isCharacterDevice(): boolean {
+    return false;
+  }
+
+  isDirectory(): boolean {
+    return (this.mode & 0o170000) === S_IFDIR;
+  }
+
+  isFIFO(): boolean {
+    return false;
+  }
+
+  isFile(): boolean {
+    return (this.mode & 0o170000) === S_IFREG;
+  }
+
+  isSocket(): boolean {
+    return false;
+  }
+
+  isSymbolicLink(): boolean {
+    return (this.mode & 0o170000) === S_IFLNK;
+  }
+}
+
+class MemoryWatcher extends EventEmitter implements Watcher {
+  _closed = false;
+  _recursive: boolean;
+  _root: string;
+
+  constructor(root: string, recursive: boolean) {
+    super();
+    this._recursive = recursive;
+    this._root = root;
+  }
+
+  close(): void {
+    if (this._closed === true) return;
+    this._closed = true;
+    process.nextTick(() => this.emit('close'));
+  }
+
+  notify(type: 'change' | 'rename', file: string): void {
+    const relative = path.relative(this._root, file);
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) return;
+    if (this._recursive === false && relative.includes(path.sep)) return;
+    process.nextTick(() => {
+      if (this._closed === false) this.emit('change', type, relative);
+    });
+  }
+}
+
+function createAbortError(): Error {
+  return Object.assign(new Error('The operation was aborted'), {name: 'AbortError', code: 'ABORT_ERR'});
+}
+
+function createError(code: string, syscall: string, file?: string): Error & {code: string} {
+  const message = MESSAGES[code] ?? code.toLowerCase();
+  const suffix = file === undefined ? '' : ` '${file}'`;
+  const error = new Error(`${code}: ${message}, ${syscall}${suffix}`);
+  const errno = (os.constants.errno as Record<string, number | undefined>)[code];
+  return Object.assign(error, {code, errno: errno === undefined ? undefined : -errno, syscall, path: file});
+}
+
+function parseMode(mode: fs.Mode): number {
+  return typeof mode === 'string' ? parseInt(mode, 8) : mode;
+}
+
+function splitPath(file: string): {root: string; parts: string[]} {
+  const resolved = path.resolve(file);
+  const root = path.parse(resolved).root;
+  const parts = resolved
+    .substring(root.length)
+    .split(path.sep)
+    .filter(part => part !== '');
+  return {root, parts};
+}
+
+function toDate(time: TimeLike): Date {
+  if (time instanceof Date) return time;
+  return new Date(Number(time) * 1000);
+}
@@ -0,0 +1,67 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+
+const CLAUSE = /^([ugoa]*)((?:[-+=](?:[ugo]|[rwxXst]*))+)$/;
+const OPERATION = /([-+=])([ugo]|[rwxXst]*)/g;
+const PERMS: Record<string, number> = {r: 0o444, w: 0o222, x: 0o111, s: 0o6000, t: 0o1000};
+const WHO: Record<string, number> = {u: 0o4700, g: 0o2070, o: 0o1007, a: 0o7777};
+
+/**
+ * Check if mode uses the symbolic notation of `chmod(1)`, like `u+x` or `go-w`, instead of an octal number.
+ */
+export function isSymbolicMode(mode: string | number): mode is string {
+  return typeof mode === 'string' && !/^[0-7]+$/.test(mode);
+}
+
+/**
+ * Resolve symbolic mode against the current mode. Comma separated clauses are applied in order, and without a `ugoa`
+ * prefix they apply to everyone (the umask is not used). `X` only sets execute permissions for directories and files
+ * that are already executable for someone.
+ */
+export function resolveMode(mode: string, current: number, isDir: boolean): number {
+  let result = current & 0o7777;
+
+  for (const clause of mode.split(',')) {
+    const match = clause.match(CLAUSE);
+    if (match === null) throw new TypeError(`Invalid symbolic mode: ${mode}`);
+
+    let who = 0;
+    for (const char of match[1] === '' ? 'a' : match[1]) {
+      who |= WHO[char];
+    }
+
+    for (const [, operator, perms] of match[2].matchAll(OPERATION)) {
+      const bits = permBits(perms, result, isDir) & who;
+      if (operator === '+') {
+        result |= bits;
+      } else if (operator === '-') {
+        result &= ~bits;
+      } else {
+        // Directories keep their setuid and setgid bits unless they are changed explicitly
+        const clear = isDir === true ? who & ~0o6000 : who;
+        result = (result & ~clear) | bits;
+      }
+    }
+  }
+
+  return result;
+}
+
+function permBits(perms: string, current: number, isDir: boolean): number {
+  if (perms === 'u') return ((current >> 6) & 0o7) * 0o111;
+  if (perms === 'g') return ((current >> 3) & 0o7) * 0o111;
+  if (perms === 'o') return (current & 0o7) * 0o111;
+
+  let bits = 0;
+  for (const perm of perms) {
+    if (perm !== 'X') {
+      bits |= PERMS[perm];
+    } else if (isDir === true || (current & 0o111) !== 0) {
+      bits |= 0o111;
+    }
+  }
+  return bits;
+}
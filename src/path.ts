@@ -3,34 +3,345 @@
  * Copyright (C) 2021-2023 Sebastian Riedel
  * MIT Licensed
  */
+import type {Backend, DirectoryEntry, ReadStreamOptions, StreamOptions} from './backend.js';
+import type {RotatingStreamOptions} from './rotating-stream.js';
+import type {TarHeader} from './tar.js';
 import type EventEmitter from 'node:events';
-import type stream from 'node:stream';
+import type fsPromises from 'node:fs/promises';
+import crypto from 'node:crypto';
 import fs from 'node:fs';
-import fsPromises from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 import readline from 'node:readline';
+import stream from 'node:stream';
+import {StringDecoder} from 'node:string_decoder';
+import timers from 'node:timers/promises';
 import url from 'node:url';
+import zlib from 'node:zlib';
+import {NodeBackend} from './backend.js';
+import {
+  IsADirectoryError,
+  LockedError,
+  NotADirectoryError,
+  PathError,
+  ParseError,
+  PathExistsError,
+  PathNotFoundError,
+  PermissionDeniedError,
+  UnsafePathError,
+  pathError
+} from './errors.js';
+import {parseEnv, parseJSON, stringifyEnv, stripBOM} from './formats.js';
+import {Glob, escapeRegExp} from './glob.js';
+import {Ignore} from './ignore.js';
+import {isSymbolicMode, resolveMode} from './mode.js';
+import {RotatingWriteStream} from './rotating-stream.js';
+import {encodeHeader, paddingSize, readTar} from './tar.js';
 import StackUtils from 'stack-utils';
 
-interface StreamOptions {
-  flags?: string;
+export {MemoryBackend} from './memory-backend.js';
+export {PosixPath, WindowsPath} from './pure-path.js';
+export {
+  IsADirectoryError,
+  LockedError,
+  NodeBackend,
+  NotADirectoryError,
+  ParseError,
+  PathError,
+  PathExistsError,
+  PathNotFoundError,
+  PermissionDeniedError,
+  PathEntry,
+  RotatingWriteStream,
+  UnsafePathError
+};
+export type {Backend, DirectoryEntry, Watcher} from './backend.js';
+
+interface ListOptions {
+  breadthFirst?: boolean;
+  concurrency?: number;
+  dir?: boolean;
+  entries?: boolean;
+  exclude?: string | string[];
+  filter?: (entry: PathEntry) => boolean | Promise<boolean>;
+  followSymlinks?: boolean;
+  hidden?: boolean;
+  ignoreFiles?: string[];
+  include?: string | string[];
+  maxDepth?: number;
+  recursive?: boolean;
+  signal?: AbortSignal;
+  sort?: boolean;
+}
+
+interface ListSyncOptions extends Omit<ListOptions, 'concurrency' | 'filter' | 'signal'> {
+  filter?: (entry: PathEntry) => boolean;
+}
+
+interface CopyOptions {
+  dereference?: boolean;
+  errorOnExist?: boolean;
+  filter?: (source: Path, destination: Path) => boolean | Promise<boolean>;
+  overwrite?: boolean;
+  preserveTimestamps?: boolean;
+  recursive?: boolean;
+}
+
+interface CopySyncOptions extends Omit<CopyOptions, 'filter'> {
+  filter?: (source: Path, destination: Path) => boolean;
+}
+
+interface ChmodOptions extends ChownOptions {
+  dirMode?: string | number;
+  fileMode?: string | number;
+}
+
+interface ChmodSyncOptions extends Omit<ChmodOptions, 'filter'> {
+  filter?: (file: Path) => boolean;
+}
+
+interface ChownOptions {
+  filter?: (file: Path) => boolean | Promise<boolean>;
+  recursive?: boolean;
+}
+
+interface ChownSyncOptions extends Omit<ChownOptions, 'filter'> {
+  filter?: (file: Path) => boolean;
+}
+
+interface DiffOptions extends Omit<ListOptions, 'dir' | 'entries' | 'filter'> {
+  compare?: 'hash' | 'mtime' | 'size';
+}
+
+interface SyncOptions extends DiffOptions {
+  delete?: boolean;
+  dryRun?: boolean;
+  filter?: (file: Path) => boolean | Promise<boolean>;
+}
+
+interface PackOptions {
+  filter?: (file: Path) => boolean | Promise<boolean>;
+  gzip?: boolean;
+  portable?: boolean;
+}
+
+interface UnpackOptions {
+  filter?: (file: Path) => boolean | Promise<boolean>;
+  preserveSetuid?: boolean;
+  strip?: number;
+}
+
+interface SnapshotOptions {
+  contents?: boolean;
+  hidden?: boolean;
+  modes?: boolean;
+}
+
+interface ContainsOptions {
+  followSymlinks?: boolean;
+}
+
+interface SuffixOptions {
+  all?: boolean;
+}
+
+interface FindUpOptions {
+  stopAt?: Path | string;
+  type?: 'dir' | 'file';
+}
+
+interface ProjectRootOptions {
+  markers?: string[];
+  stopAt?: Path | string;
+}
+
+interface HashOptions {
+  encoding?: crypto.BinaryToTextEncoding;
+}
+
+interface ManifestOptions extends HashOptions, Pick<ListOptions, 'exclude' | 'hidden' | 'ignoreFiles' | 'include'> {
+  algorithm?: string;
+}
+
+interface DigestOptions extends ManifestOptions {
+  mode?: boolean;
+}
+
+interface DuOptions {
+  apparent?: boolean;
+  children?: boolean;
+  followSymlinks?: boolean;
+  hidden?: boolean;
+  maxDepth?: number;
+}
+
+interface GlobOptions {
+  dir?: boolean;
+  dot?: boolean;
+  ignore?: string | string[];
+  maxDepth?: number;
+}
+
+interface GrepOptions {
+  binary?: 'skip' | 'text';
+  concurrency?: number;
+  contextLines?: number;
+  glob?: string | string[];
+  maxMatches?: number;
+}
+
+interface WatchOptions {
+  debounce?: number;
+  glob?: string | string[];
+  recursive?: boolean;
+  signal?: AbortSignal;
+}
+
+interface FollowOptions {
   encoding?: BufferEncoding;
-  fd?: number | fsPromises.FileHandle;
-  mode?: number;
-  autoClose?: boolean;
-  emitClose?: boolean;
-  start?: number;
-  highWaterMark?: number;
+  fromEnd?: boolean;
+  lines?: number;
+  pollInterval?: number;
+  signal?: AbortSignal;
+}
+
+interface LinesOptions {
+  encoding?: BufferEncoding;
+}
+
+interface WriteOptions {
+  atomic?: boolean;
+}
+
+interface WriteJSONOptions extends WriteOptions {
+  indent?: number | string;
+}
+
+interface LockOptions {
+  retries?: number;
+  signal?: AbortSignal;
+  stale?: number;
+  timeout?: number;
+}
+
+interface WalkDir {
+  ancestors?: string[];
+  dir: string;
+  ignore?: Ignore;
+  parents: string[];
+}
+
+interface WalkStep {
+  entry?: PathEntry;
+  next?: WalkDir;
+}
+
+interface DiffEntry {
+  path: Path;
+  stat: fs.Stats | fs.BigIntStats;
+  type: 'dir' | 'file' | 'other' | 'symlink';
+}
+
+interface LockOwner {
+  hostname: string;
+  id: string;
+  pid: number;
+}
+
+interface LockState {
+  mtimeMs: number;
+  owner: LockOwner | undefined;
+}
+
+interface TempFileOptions {
+  data?: string | Uint8Array;
+  dir?: Path;
+  prefix?: string;
+  suffix?: string;
+}
+
+export interface DiffResult {
+  added: Path[];
+  changed: Path[];
+  removed: Path[];
+  typeChanged: Path[];
+}
+
+export interface DiskUsage {
+  blocks: number;
+  bytes: number;
+  children?: DiskUsageEntry[];
+  dirs: number;
+  files: number;
+}
+
+export interface DiskUsageEntry extends DiskUsage {
+  path: Path;
+}
+
+export interface FileSize {
+  blocks: number;
+  bytes: number;
+  path: Path;
+}
+
+export interface GrepMatch {
+  after: string[];
+  before: string[];
+  column: number;
+  line: number;
+  match: string;
+  path: Path;
+  text: string;
+}
+
+export interface SyncReport {
+  copied: Path[];
+  created: Path[];
+  deleted: Path[];
+  skipped: Path[];
+}
+
+export interface Tree {
+  [name: string]: TreeEntry;
+}
+
+export type TreeEntry = Buffer | JSONValue | Tree | TreeFile | TreeSymlink;
+
+type JSONValue = boolean | number | string | null | JSONValue[] | {[key: string]: JSONValue};
+
+export interface VerifyResult {
+  extra: string[];
+  mismatched: string[];
+  missing: string[];
 }
 
-interface ReadStreamOptions extends StreamOptions {
-  end?: number;
+export interface WatchEvent {
+  type: 'add' | 'addDir' | 'change' | 'unlink' | 'unlinkDir';
+  path: Path;
 }
 
+type FindUpMatcher = string | string[] | ((dir: Path) => boolean | Promise<boolean>);
+type FindUpMatcherSync = string | string[] | ((dir: Path) => boolean);
 type NodeError = Error & {code: string};
+type WalkRead = [AsyncIterator<WalkStep>, IteratorResult<WalkStep>];
+
+const BINARY_CHECK_SIZE = 8000;
+const FOLLOW_POLL_INTERVAL = 250;
+const GREP_CONCURRENCY = 4;
+const LOCK_RETRY_DELAY = 100;
+const TAIL_CHUNK_SIZE = 65536;
+const PROJECT_MARKERS = ['package.json', '.git'];
+const MOVE_OPTIONS = {force: true, preserveTimestamps: true, recursive: true, verbatimSymlinks: true};
+const SYNC_OPTIONS = {force: true, preserveTimestamps: true, verbatimSymlinks: true};
 
 export default class Path {
+  /**
+   * File system backend used by all `Path` objects without their own backend.
+   */
+  static backend: Backend = new NodeBackend();
+
+  _backend: Backend | undefined = undefined;
   _path: string;
 
   /**
@@ -46,12 +357,28 @@ export default class Path {
     this._path = parts.length === 0 ? process.cwd() : parts.length === 1 ? parts[0] : path.join(...parts);
   }
 
+  /**
+   * File system backend used by this path and all paths derived from it, defaults to `Path.backend`.
+   * @example
+   * // Use in-memory backend for a directory tree
+   * const dir = new Path('/home/kraih');
+   * dir.backend = new MemoryBackend();
+   * await dir.child('test.txt').writeFile('Hello World!');
+   */
+  get backend(): Backend {
+    return this._backend ?? Path.backend;
+  }
+
+  set backend(backend: Backend) {
+    this._backend = backend;
+  }
+
   /**
    * Asynchronously tests a user's permissions for the file or directory.
    * @see https://nodejs.org/api/fs.html#fs_fspromises_access_path_mode
    */
   async access(mode: number): Promise<boolean> {
-    return await fsPromises.access(this._path, mode).then(
+    return await this.backend.access(this._path, mode).then(
       () => true,
       () => false
     );
@@ -63,7 +390,7 @@ export default class Path {
    */
   accessSync(mode: number): boolean {
     try {
-      fs.accessSync(this._path, mode);
+      this.backend.accessSync(this._path, mode);
       return true;
     } catch (error) {
       return false;
@@ -78,7 +405,11 @@ export default class Path {
     data: string | Uint8Array,
     options?: BufferEncoding | (fs.ObjectEncodingOptions & fs.promises.FlagAndOpenMode)
   ): Promise<this> {
-    await fsPromises.appendFile(this._path, data, options);
+    try {
+      await this.backend.appendFile(this._path, data, options);
+    } catch (error) {
+      throw pathError(error, 'appendFile', this._path);
+    }
     return this;
   }
 
@@ -87,10 +418,32 @@ export default class Path {
    * @see https://nodejs.org/api/fs.html#fsappendfilesyncpath-data-options
    */
   appendFileSync(data: string | Uint8Array, options?: fs.WriteFileOptions): this {
-    fs.appendFileSync(this._path, data, options);
+    try {
+      this.backend.appendFileSync(this._path, data, options ?? undefined);
+    } catch (error) {
+      throw pathError(error, 'appendFileSync', this._path);
+    }
     return this;
   }
 
+  /**
+   * Asynchronously append a record to a newline delimited JSON (NDJSON) file, creating the file if it does not yet
+   * exist.
+   * @example
+   * // Append event to log
+   * await new Path('events.ndjson').appendRecord({type: 'login', user: 'kraih'});
+   */
+  async appendRecord(record: unknown): Promise<this> {
+    return await this.appendFile(`${JSON.stringify(record)}\n`);
+  }
+
+  /**
+   * Synchronously append a record to a newline delimited JSON (NDJSON) file, creating the file if it does not yet exist.
+   */
+  appendRecordSync(record: unknown): this {
+    return this.appendFileSync(`${JSON.stringify(record)}\n`);
+  }
+
   /**
    * Returns the last portion of a path, similar to the Unix `basename` command.
    * @see https://nodejs.org/api/path.html#path_path_basename_path_ext
@@ -115,45 +468,106 @@ export default class Path {
    * const file = home.child('notes.txt');
    */
   child(...parts: string[]): Path {
-    return new Path(this._path, ...parts);
+    return this._derive(this._path, ...parts);
   }
 
   /**
-   * Asynchronously changes the permissions of a file.
+   * Asynchronously changes the permissions of a file. Modes can be numbers, octal strings or use the symbolic notation of
+   * `chmod(1)`, like `u+x` or `go-w,o-rwx`, which is resolved against the current mode. With the `recursive` option all
+   * files and directories inside of a directory are changed too (symbolic links are skipped), optionally with separate
+   * `fileMode` and `dirMode`, and a `filter` function to decide which files and directories to change.
    * @see https://nodejs.org/api/fs.html#fs_fspromises_chmod_path_mode
+   * @example
+   * // Make file executable for its owner
+   * await new Path('script.sh').chmod('u+x');
+   *
+   * // Fix permissions of a whole directory tree
+   * await new Path('/srv/www').chmod('u=rwX,go=rX', {recursive: true});
+   * await new Path('/srv/www').chmod(0o644, {recursive: true, dirMode: 0o755});
    */
-  async chmod(mode: string | number): Promise<this> {
-    await fsPromises.chmod(this._path, mode);
+  async chmod(mode: string | number, options: ChmodOptions = {}): Promise<this> {
+    try {
+      const files = options.recursive === true ? await recursiveTargets(this, options.filter) : [];
+      for (const file of [...files.reverse(), this]) {
+        await chmodApply(file, mode, options);
+      }
+    } catch (error) {
+      throw pathError(error, 'chmod', this._path);
+    }
     return this;
   }
 
   /**
-   * Synchronously changes the permissions of a file.
+   * Synchronously changes the permissions of a file, supports the same modes and options as `chmod`.
    * @see https://nodejs.org/api/fs.html#fs_fs_chmodsync_path_mode
    */
-  chmodSync(mode: string | number): this {
-    fs.chmodSync(this._path, mode);
+  chmodSync(mode: string | number, options: ChmodSyncOptions = {}): this {
+    try {
+      const files = options.recursive === true ? recursiveTargetsSync(this, options.filter) : [];
+      for (const file of [...files.reverse(), this]) {
+        chmodApplySync(file, mode, options);
+      }
+    } catch (error) {
+      throw pathError(error, 'chmodSync', this._path);
+    }
     return this;
   }
 
   /**
-   * Asynchronously change the ownership of a file.
+   * Asynchronously change the ownership of a file. With the `recursive` option all files and directories inside of a
+   * directory are changed too (symbolic links are skipped), optionally with a `filter` function to decide which files
+   * and directories to change.
    * @see https://nodejs.org/api/fs.html#fspromiseschownpath-uid-gid
    */
-  async chown(uid: number, gid: number): Promise<this> {
-    await fsPromises.chown(this._path, uid, gid);
+  async chown(uid: number, gid: number, options: ChownOptions = {}): Promise<this> {
+    try {
+      const files = options.recursive === true ? await recursiveTargets(this, options.filter) : [];
+      for (const file of [...files.reverse(), this]) {
+        await this.backend.chown(file._path, uid, gid);
+      }
+    } catch (error) {
+      throw pathError(error, 'chown', this._path);
+    }
     return this;
   }
 
   /**
-   * Synchronously change the ownership of a file.
+   * Synchronously change the ownership of a file, supports the same options as `chown`.
    * @see https://nodejs.org/api/fs.html#fschownsyncpath-uid-gid
    */
-  chownSync(uid: number, gid: number): this {
-    fs.chownSync(this._path, uid, gid);
+  chownSync(uid: number, gid: number, options: ChownSyncOptions = {}): this {
+    try {
+      const files = options.recursive === true ? recursiveTargetsSync(this, options.filter) : [];
+      for (const file of [...files.reverse(), this]) {
+        this.backend.chownSync(file._path, uid, gid);
+      }
+    } catch (error) {
+      throw pathError(error, 'chownSync', this._path);
+    }
     return this;
   }
 
+  /**
+   * Find the closest common ancestor directory of the current path and all other paths, paths are resolved to absolute
+   * paths first. Returns `null` if there is none, which is only possible with Windows paths on different drives.
+   * @example
+   * // "/home/kraih"
+   * new Path('/home/kraih/notes.txt').commonAncestor('/home/kraih/work/todo.txt');
+   */
+  commonAncestor(...others: Array<Path | string>): Path | null {
+    const [first, ...rest] = [this, ...others].map(other => path.resolve(other.toString()).split(path.sep));
+
+    let length = first.length;
+    for (const parts of rest) {
+      let i = 0;
+      while (i < length && i < parts.length && parts[i] === first[i]) i++;
+      length = i;
+    }
+
+    if (length === 0) return null;
+    return this._derive(length === 1 ? `${first[0]}${path.sep}` : first.slice(0, length).join(path.sep));
+  }
+
   /**
    * Returns an object containing commonly used constants for file system operations.
    * @see https://nodejs.org/api/fs.html#fs_fs_constants
@@ -162,12 +576,79 @@ export default class Path {
     return fs.constants;
   }
 
+  /**
+   * Asynchronously check if path is the same as or inside of the current path. Both paths are only compared as strings,
+   * unless the `followSymlinks` option is used, then they are resolved with `realpath` first (paths that do not exist yet
+   * are resolved through their closest existing parent directory).
+   * @example
+   * // Make sure an upload does not escape through symbolic links
+   * const isSafe = await uploads.contains(uploads.safeChild(name), {followSymlinks: true});
+   */
+  async contains(other: Path | string, options: ContainsOptions = {}): Promise<boolean> {
+    try {
+      const target = other.toString();
+      if (target.includes('\0')) return false;
+      if (options.followSymlinks !== true) return isInside(this._path, target);
+      return isInside(await realpathExisting(this, this._path), await realpathExisting(this, target));
+    } catch (error) {
+      throw pathError(error, 'contains', this._path);
+    }
+  }
+
+  /**
+   * Synchronously check if path is the same as or inside of the current path.
+   */
+  containsSync(other: Path | string, options: ContainsOptions = {}): boolean {
+    try {
+      const target = other.toString();
+      if (target.includes('\0')) return false;
+      if (options.followSymlinks !== true) return isInside(this._path, target);
+      return isInside(realpathExistingSync(this, this._path), realpathExistingSync(this, target));
+    } catch (error) {
+      throw pathError(error, 'containsSync', this._path);
+    }
+  }
+
+  /**
+   * Asynchronously copies file or directory to destination, directories require the `recursive` option.
+   * @see https://nodejs.org/api/fs.html#fspromisescpsrc-dest-options
+   * @example
+   * // Copy directory, but skip log files
+   * const dir = new Path('/home/kraih/project');
+   * await dir.copy('/home/kraih/backup', {recursive: true, filter: source => source.extname() !== '.log'});
+   */
+  async copy(destination: Path | string, options: CopyOptions = {}): Promise<this> {
+    try {
+      await this.backend.cp(this._path, destination.toString(), copyOptions(this, options));
+    } catch (error) {
+      throw pathError(error, 'copy', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Synchronously copies file or directory to destination, directories require the `recursive` option.
+   * @see https://nodejs.org/api/fs.html#fscpsyncsrc-dest-options
+   */
+  copySync(destination: Path | string, options: CopySyncOptions = {}): this {
+    try {
+      this.backend.cpSync(this._path, destination.toString(), copyOptions(this, options) as fs.CopySyncOptions);
+    } catch (error) {
+      throw pathError(error, 'copySync', this._path);
+    }
+    return this;
+  }
+
   /**
    * Asynchronously copies file to destination.
    * @see https://nodejs.org/api/fs.html#fs_fspromises_copyfile_src_dest_mode
    */
   async copyFile(destination: Path | string, flags?: number): Promise<this> {
-    await fsPromises.copyFile(this._path, destination.toString(), flags);
+    try {
+      await this.backend.copyFile(this._path, destination.toString(), flags);
+    } catch (error) {
+      throw pathError(error, 'copyFile', this._path);
+    }
     return this;
   }
 
@@ -176,7 +657,11 @@ export default class Path {
    * @see https://nodejs.org/api/fs.html#fs_fs_copyfilesync_src_dest_mode
    */
   copyFileSync(destination: Path | string, flags?: number): this {
-    fs.copyFileSync(this._path, destination.toString(), flags);
+    try {
+      this.backend.copyFileSync(this._path, destination.toString(), flags);
+    } catch (error) {
+      throw pathError(error, 'copyFileSync', this._path);
+    }
     return this;
   }
 
@@ -185,7 +670,24 @@ export default class Path {
    * @see https://nodejs.org/api/fs.html#fs_fs_createreadstream_path_options
    */
   createReadStream(options?: BufferEncoding | ReadStreamOptions | undefined): fs.ReadStream {
-    return fs.createReadStream(this._path, options);
+    return this.backend.createReadStream(this._path, options);
+  }
+
+  /**
+   * Create a writable stream for a log file that is rotated once it grows beyond `maxSize` bytes, or when the current
+   * `interval` (in milliseconds) has passed. Rotated files are numbered (`app.log.1` is the newest) or, with `naming`
+   * set to `date`, get a timestamp (like `app.log.2024-10-12T00-00-00`). With `compress` rotated files are compressed
+   * with gzip, and `maxFiles` limits how many of them are kept. Data is only written in whole lines, so lines are never
+   * split across files.
+   * @example
+   * // Rotate log file daily and keep a week of compressed logs
+   * const stream = new Path('app.log').createRotatingWriteStream({interval: 86400000, maxFiles: 7, compress: true});
+   *
+   * // Rotate log file when it reaches 10MiB
+   * const stream = new Path('app.log').createRotatingWriteStream({maxSize: 10485760, maxFiles: 3});
+   */
+  createRotatingWriteStream(options: RotatingStreamOptions = {}): RotatingWriteStream {
+    return new RotatingWriteStream(this, options);
   }
 
   /**
@@ -193,7 +695,7 @@ export default class Path {
    * @see https://nodejs.org/api/fs.html#fs_fs_createwritestream_path_options
    */
   createWriteStream(options?: BufferEncoding | StreamOptions | undefined): fs.WriteStream {
-    return fs.createWriteStream(this._path, options);
+    return this.backend.createWriteStream(this._path, options);
   }
 
   /**
@@ -204,12 +706,127 @@ export default class Path {
     return fileName.startsWith('file://') ? Path.fromFileURL(fileName) : new Path(fileName);
   }
 
+  /**
+   * Compare directory with another directory, and return relative paths for all entries that have been added, removed,
+   * changed or have changed type (like a file that became a directory). Files are considered changed if their size or
+   * modification time differs, or with `compare` set to `size` or `hash` only if their size or content hash differ. Uses
+   * the same options as `list` for hidden files and recursion.
+   * @example
+   * // Compare directory trees based on file contents
+   * const {added, changed, removed} = await new Path('build').diff('/srv/www', {recursive: true, compare: 'hash'});
+   */
+  async diff(other: Path | string, options: DiffOptions = {}): Promise<DiffResult> {
+    try {
+      const {compare = 'mtime', ...listOptions} = options;
+      const source = await diffEntries(this, listOptions);
+      const target = await diffEntries(typeof other === 'string' ? this._derive(other) : other, listOptions);
+
+      const result: DiffResult = {added: [], changed: [], removed: [], typeChanged: []};
+      for (const name of [...source.keys()].sort()) {
+        const entry = source.get(name) as DiffEntry;
+        const otherEntry = target.get(name);
+        if (otherEntry === undefined) {
+          result.added.push(this._derive(name));
+        } else if (otherEntry.type !== entry.type) {
+          result.typeChanged.push(this._derive(name));
+        } else if (entry.type !== 'dir' && (await diffIsChanged(entry, otherEntry, compare))) {
+          result.changed.push(this._derive(name));
+        }
+      }
+      for (const name of [...target.keys()].sort()) {
+        if (!source.has(name)) result.removed.push(this._derive(name));
+      }
+
+      return result;
+    } catch (error) {
+      throw pathError(error, 'diff', this._path);
+    }
+  }
+
+  /**
+   * Calculate a deterministic digest for all files in directory, covering relative paths, contents and optionally file
+   * modes. The order in which files are returned by the file system does not affect the result.
+   * @example
+   * // Cache key for a source directory, including file modes
+   * const key = await new Path('/home/kraih/project/src').digest({mode: true, ignoreFiles: ['.gitignore']});
+   */
+  async digest(options: DigestOptions = {}): Promise<string> {
+    try {
+      const algorithm = options.algorithm ?? 'sha256';
+      const manifest = await this.manifest({...options, encoding: 'hex'});
+
+      const hash = crypto.createHash(algorithm);
+      for (const [name, digest] of Object.entries(manifest)) {
+        let mode = '';
+        if (options.mode === true) {
+          const stat = await this.child(...name.split('/')).stat();
+          mode = (Number(stat.mode) & 0o7777).toString(8);
+        }
+        hash.update(`${name}\0${mode}\0${digest}\n`);
+      }
+
+      return hash.digest(options.encoding ?? 'hex');
+    } catch (error) {
+      throw pathError(error, 'digest', this._path);
+    }
+  }
+
   /**
    * Returns the directory name of a path, similar to the Unix `dirname` command.
    * @see https://nodejs.org/api/path.html#path_path_dirname_path
    */
   dirname(): Path {
-    return new Path(path.dirname(this._path));
+    return this._derive(path.dirname(this._path));
+  }
+
+  /**
+   * Calculate disk usage of a directory tree (or a single file), like `du`, with the total `bytes` (allocated blocks, or
+   * the apparent size of files with the `apparent` option), the number of allocated 512-byte `blocks`, and how many
+   * `files` and `dirs` (including the directory itself) there are. Files with multiple hard links are only counted
+   * once. Hidden files are only included with the `hidden` option, `maxDepth` limits recursion, and with
+   * `followSymlinks` symbolic links are resolved. With the `children` option, the usage of every entry in the directory
+   * is returned as well, sorted by size.
+   * @example
+   * // Total size of directory in bytes
+   * const {bytes} = await new Path('node_modules').du({hidden: true, apparent: true});
+   *
+   * // Find out what is taking up space
+   * const {children} = await new Path('/home/kraih').du({hidden: true, children: true});
+   * for (const child of children) {
+   *   console.log(`${child.bytes} ${child.path}`);
+   * }
+   */
+  async du(options: DuOptions = {}): Promise<DiskUsage> {
+    try {
+      const usage: DiskUsage = {blocks: 0, bytes: 0, dirs: 0, files: 0};
+      const children = new Map<string, DiskUsageEntry>();
+      for await (const [file, stat, child] of duEntries(this, undefined, 0, options, new Set())) {
+        duAdd(usage, stat, options);
+        if (options.children !== true || child === undefined) continue;
+
+        let entry = children.get(child);
+        if (entry === undefined) {
+          entry = {blocks: 0, bytes: 0, dirs: 0, files: 0, path: file};
+          children.set(child, entry);
+        }
+        duAdd(entry, stat, options);
+      }
+
+      if (options.children === true) {
+        usage.children = [...children.values()].sort(compareSizes);
+      }
+      return usage;
+    } catch (error) {
+      throw pathError(error, 'du', this._path);
+    }
+  }
+
+  /**
+   * Check if both paths point to the same location, after they have been resolved to absolute paths. Symbolic links are
+   * not resolved.
+   */
+  equals(other: Path | string): boolean {
+    return path.resolve(this._path) === path.resolve(other.toString());
   }
 
   /**
@@ -226,6 +843,17 @@ export default class Path {
     return this.accessSync(fs.constants.F_OK);
   }
 
+  /**
+   * Expand a leading `~` (tilde) to the home directory of the current user.
+   * @example
+   * // "/home/kraih/.config"
+   * new Path('~/.config').expandHome();
+   */
+  expandHome(): Path {
+    const isHome = this._path === '~' || this._path.startsWith('~/') || this._path.startsWith(`~${path.sep}`);
+    return isHome ? this._derive(os.homedir(), this._path.substring(2)) : this._derive(this._path);
+  }
+
   /**
    * Returns the extension of the path, from the last occurrence of the `.` (period) character to end of string in the
    * last portion of the path.
@@ -236,434 +864,2940 @@ export default class Path {
   }
 
   /**
-   * Create a new `Path` object from a `file://` URL.
+   * Create a file entry with a specific mode for `materialize`, also used by `snapshot` with the `modes` option.
+   * @example
+   * // Executable file
+   * await dir.materialize({'run.sh': Path.file('#!/bin/sh\n', {mode: 0o755})});
    */
-  static fromFileURL(file: string): Path {
-    return new Path(url.fileURLToPath(file));
+  static file(content: Buffer | JSONValue, options: {mode?: number} = {}): TreeFile {
+    return new TreeFile(content, options.mode);
   }
 
   /**
-   * Determine if path is an absolute path.
-   * @see https://nodejs.org/api/path.html#path_path_isabsolute_path
+   * Find the first file or directory with one of the given names in the current directory or one of its parents, up to
+   * the `stopAt` directory (or the root directory). A function can be used instead of names, it receives each directory
+   * and decides if it is a match. Returns `undefined` if nothing could be found.
+   * @example
+   * // Find closest "package.json" file
+   * const pkg = await Path.currentFile().findUp('package.json', {type: 'file'});
+   *
+   * // Find closest directory containing a "tsconfig.json" file
+   * const dir = await Path.currentFile().findUp(dir => dir.child('tsconfig.json').exists());
    */
-  isAbsolute(): boolean {
-    return path.isAbsolute(this._path);
+  async findUp(matcher: FindUpMatcher, options: FindUpOptions = {}): Promise<Path | undefined> {
+    try {
+      for await (const match of findUpMatches(this, matcher, options)) {
+        return match;
+      }
+      return undefined;
+    } catch (error) {
+      throw pathError(error, 'findUp', this._path);
+    }
   }
 
   /**
-   * Asynchronously check if file is readable.
+   * Find the first file or directory with one of the given names in the current directory or one of its parents.
    */
-  async isReadable(): Promise<boolean> {
-    return await this.access(fs.constants.R_OK);
+  findUpSync(matcher: FindUpMatcherSync, options: FindUpOptions = {}): Path | undefined {
+    try {
+      for (const match of findUpMatchesSync(this, matcher, options)) {
+        return match;
+      }
+      return undefined;
+    } catch (error) {
+      throw pathError(error, 'findUpSync', this._path);
+    }
   }
 
   /**
-   * Synchronously check if file is readable.
+   * Find all files and directories with one of the given names in the current directory and its parents, closest ones
+   * first.
    */
-  isReadableSync(): boolean {
-    return this.accessSync(fs.constants.R_OK);
-  }
-
-  /**
-   * Asynchronously check if file is writable.
-   */
-  async isWritable(): Promise<boolean> {
-    return await this.access(fs.constants.W_OK);
+  async findUpAll(matcher: FindUpMatcher, options: FindUpOptions = {}): Promise<Path[]> {
+    try {
+      const matches: Path[] = [];
+      for await (const match of findUpMatches(this, matcher, options)) {
+        matches.push(match);
+      }
+      return matches;
+    } catch (error) {
+      throw pathError(error, 'findUpAll', this._path);
+    }
   }
 
   /**
-   * Synchronously check if file is writable.
+   * Find all files and directories with one of the given names in the current directory and its parents.
    */
-  isWritableSync(): boolean {
-    return this.accessSync(fs.constants.W_OK);
+  findUpAllSync(matcher: FindUpMatcherSync, options: FindUpOptions = {}): Path[] {
+    try {
+      return [...findUpMatchesSync(this, matcher, options)];
+    } catch (error) {
+      throw pathError(error, 'findUpAllSync', this._path);
+    }
   }
 
   /**
-   * List files in directory.
+   * Follow a growing file one line at a time, like `tail -f`. By default the whole file is read first, with `fromEnd`
+   * only new lines are returned, and with `lines` the last few lines. The file is checked for new data every
+   * `pollInterval` milliseconds (defaults to 250), and if it has been truncated or replaced (like during log rotation),
+   * reading starts again from the beginning. Following stops when the `signal` is aborted or the iterator is returned.
    * @example
-   * // List files recursively
-   * const dir = new Path('/tmp');
-   * for await (const file of dir.list({recursive: true})) {
-   *   console.log(file.toString());
+   * // Follow log file, starting with the last 10 lines
+   * const controller = new AbortController();
+   * for await (const line of new Path('/var/log/app.log').follow({lines: 10, signal: controller.signal})) {
+   *   console.log(line);
    * }
    */
-  async *list(
-    options: {dir?: boolean; hidden?: boolean; maxDepth?: number; recursive?: boolean} = {}
-  ): AsyncIterable<Path> {
-    const files = await fsPromises.readdir(this._path, {withFileTypes: true});
+  async *follow(options: FollowOptions = {}): AsyncIterable<string> {
+    try {
+      const signal = options.signal;
+      let stat = await followStat(this);
+      let ino = stat === null ? undefined : Number(stat.ino);
+      let position = 0;
+      if (stat !== null && options.lines !== undefined) {
+        position = (await tailBuffer(this, options.lines, Number(stat.size))).offset;
+      } else if (stat !== null && options.fromEnd === true) {
+        position = Number(stat.size);
+      }
 
-    const maxDepth = options.maxDepth;
-    for (const file of files) {
-      if (options.hidden !== true && file.name.startsWith('.')) continue;
+      let decoder = new StringDecoder(options.encoding ?? 'utf8');
+      let buffered = '';
+      while (signal?.aborted !== true) {
+        if (stat !== null && Number(stat.ino) !== ino) {
+          // File has been replaced, the last line might not have been terminated
+          if (buffered !== '') yield buffered;
+          ino = Number(stat.ino);
+          position = 0;
+          buffered = '';
+          decoder = new StringDecoder(options.encoding ?? 'utf8');
+        } else if (stat !== null && Number(stat.size) < position) {
+          position = 0;
+          buffered = '';
+          decoder = new StringDecoder(options.encoding ?? 'utf8');
+        }
 
-      const full = path.resolve(this._path, file.name);
-      if (file.isDirectory()) {
-        if (options.dir === true) yield new Path(full);
-        if (options.recursive === true && options.maxDepth !== 1) {
-          yield* new Path(full).list(maxDepth === undefined ? options : {...options, maxDepth: maxDepth - 1});
+        const size = stat === null ? 0 : Number(stat.size);
+        if (size > position) {
+          buffered += decoder.write(await readRange(this, position, size));
+          position = size;
+          const lines = buffered.split('\n');
+          buffered = lines.pop() ?? '';
+          for (const line of lines) {
+            yield line.endsWith('\r') ? line.substring(0, line.length - 1) : line;
+          }
+          continue;
         }
-      } else {
-        yield new Path(full);
+
+        try {
+          await timers.setTimeout(options.pollInterval ?? FOLLOW_POLL_INTERVAL, undefined, {signal});
+        } catch (error) {
+          if ((error as Error).name === 'AbortError') return;
+          throw error;
+        }
+        stat = await followStat(this);
       }
+    } catch (error) {
+      throw pathError(error, 'follow', this._path);
     }
   }
 
   /**
-   * Read file one line at a time.
+   * Create a new `Path` object from a `file://` URL.
+   */
+  static fromFileURL(file: string): Path {
+    return new Path(url.fileURLToPath(file));
+  }
+
+  /**
+   * Find files matching a glob pattern, relative to the current path. Supports `*`, `?`, `**`, character classes like
+   * `[a-z]` and `[!a-z]`, braces like `{js,ts}` and `{1..3}`, and negation with a leading `!`.
    * @example
-   * // Decode UTF-8 file
-   * const file = new Path('notes.txt');
-   * for await (const line of file.lines({encoding: 'utf8'})) {
-   *   console.log(line);
+   * // Find TypeScript files, but skip "node_modules" directories
+   * const dir = new Path('/home/kraih/project');
+   * for await (const file of dir.glob('src/**\/*.{ts,tsx}', {ignore: ['**\/node_modules/**']})) {
+   *   console.log(file.toString());
    * }
    */
-  lines(options?: stream.ReadableOptions): readline.Interface {
-    return readline.createInterface({input: this.createReadStream(options), crlfDelay: Infinity});
+  async *glob(pattern: string | string[], options: GlobOptions = {}): AsyncIterable<Path> {
+    try {
+      const glob = new Glob(pattern, options.ignore, {dot: options.dot});
+      const walkOptions = {dir: options.dir, hidden: true, maxDepth: options.maxDepth, recursive: true};
+      for await (const entry of walkDir(this, {dir: this._path, parents: []}, walkOptions, glob)) {
+        yield entry.path;
+      }
+    } catch (error) {
+      throw pathError(error, 'glob', this._path);
+    }
   }
 
   /**
-   * Equivalent to `stat` unless path refers to a symbolic link, in which case the link itself is stat-ed, not the file
-   * that it refers to.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_lstat_path_options
+   * Find files matching a glob pattern, relative to the current path.
    */
-  async lstat(options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats> {
-    return await fsPromises.lstat(this._path, options);
+  *globSync(pattern: string | string[], options: GlobOptions = {}): Iterable<Path> {
+    try {
+      const glob = new Glob(pattern, options.ignore, {dot: options.dot});
+      const walkOptions = {dir: options.dir, hidden: true, maxDepth: options.maxDepth, recursive: true};
+      for (const entry of walkDirSync(this, {dir: this._path, parents: []}, walkOptions, glob)) {
+        yield entry.path;
+      }
+    } catch (error) {
+      throw pathError(error, 'globSync', this._path);
+    }
   }
 
   /**
-   * Equivalent to `statSync` unless path refers to a symbolic link, in which case the link itself is stat-ed, not the
-   * file that it refers to.
-   * @see https://nodejs.org/api/fs.html#fs_fs_lstatsync_path_options
+   * Search files in directory recursively (or just the file itself) for a regular expression or literal string, and
+   * iterate over all matches in order, with the line number and column (both start at 1), the matched text, the whole
+   * line and `contextLines` lines before and after. Files are read as UTF-8 streams, up to `concurrency` files at once
+   * (defaults to 4), and files that look binary (contain a NUL byte in the first 8000 bytes) are skipped, unless
+   * `binary` is set to `text`. The `glob` option limits which files are searched, and `maxMatches` how many matches are
+   * returned in total.
+   * @example
+   * // Find TODO comments in TypeScript files
+   * for await (const match of new Path('src').grep(/TODO:?\s*(.+)/, {glob: '**\/*.ts'})) {
+   *   console.log(`${match.path}:${match.line}:${match.column}: ${match.text}`);
+   * }
    */
-  lstatSync(options?: fs.StatOptions): fs.Stats | fs.BigIntStats | undefined {
-    return fs.lstatSync(this._path, options);
+  async *grep(pattern: RegExp | string, options: GrepOptions = {}): AsyncIterable<GrepMatch> {
+    const regex = grepRegExp(pattern);
+    const concurrency = Math.max(options.concurrency ?? GREP_CONCURRENCY, 1);
+    const maxMatches = options.maxMatches ?? Infinity;
+    const stop = new AbortController();
+    const pending: Array<Promise<GrepMatch[]>> = [];
+
+    try {
+      if (maxMatches <= 0) return;
+      const isDir = (await this.stat()).isDirectory();
+      const files = isDir
+        ? this.list({recursive: true, include: options.glob, sort: true})[Symbol.asyncIterator]()
+        : undefined;
+
+      let count = 0;
+      let done = files === undefined;
+      if (files === undefined) pending.push(grepFile(this, regex, options, stop.signal));
+      while (true) {
+        while (!done && pending.length < concurrency) {
+          const next = await (files as AsyncIterator<Path>).next();
+          if (next.done === true) {
+            done = true;
+          } else {
+            const search = grepFile(next.value, regex, options, stop.signal);
+            // Errors are handled once it is the file's turn
+            search.catch(() => undefined);
+            pending.push(search);
+          }
+        }
+
+        const search = pending.shift();
+        if (search === undefined) return;
+        for (const match of await search) {
+          yield match;
+          if (++count >= maxMatches) return;
+        }
+      }
+    } catch (error) {
+      throw pathError(error, 'grep', this._path);
+    } finally {
+      stop.abort();
+      await Promise.allSettled(pending);
+    }
   }
 
   /**
-   * Asynchronously creates a directory.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_mkdir_path_options
+   * Asynchronously calculate hash for file content.
+   * @example
+   * // Calculate SHA-256 checksum
+   * const checksum = await new Path('release.tar.gz').hash();
+   *
+   * // Calculate MD5 checksum encoded with Base64
+   * const checksum = await new Path('release.tar.gz').hash('md5', {encoding: 'base64'});
    */
-  async mkdir(options?: fs.MakeDirectoryOptions & {recursive: true}): Promise<this> {
-    await fsPromises.mkdir(this._path, options);
-    return this;
+  async hash(algorithm = 'sha256', options: HashOptions = {}): Promise<string> {
+    try {
+      const hash = crypto.createHash(algorithm);
+      for await (const chunk of this.createReadStream()) {
+        hash.update(chunk);
+      }
+      return hash.digest(options.encoding ?? 'hex');
+    } catch (error) {
+      throw pathError(error, 'hash', this._path);
+    }
   }
 
   /**
-   * Synchronously creates a directory.
-   * @see https://nodejs.org/api/fs.html#fs_fs_mkdirsync_path_options
+   * Synchronously calculate hash for file content.
    */
-  mkdirSync(options?: fs.MakeDirectoryOptions & {recursive: true}): this {
-    fs.mkdirSync(this._path, options);
-    return this;
+  hashSync(algorithm = 'sha256', options: HashOptions = {}): string {
+    try {
+      return crypto
+        .createHash(algorithm)
+        .update(this.backend.readFileSync(this._path))
+        .digest(options.encoding ?? 'hex');
+    } catch (error) {
+      throw pathError(error, 'hashSync', this._path);
+    }
   }
 
   /**
-   * Normalizes the given path, resolving `..` and `.` segments.
-   * @see https://nodejs.org/api/path.html#path_path_normalize_path
+   * Read the first `n` lines of a file (defaults to 10), without reading the rest of it.
+   * @example
+   * // Read header of CSV file
+   * const [header] = await new Path('data.csv').head(1);
    */
-  normalize(): Path {
-    return new Path(path.normalize(this._path));
+  async head(n = 10, options: LinesOptions = {}): Promise<string[]> {
+    try {
+      const lines: string[] = [];
+      if (n <= 0) return lines;
+
+      const input = this.createReadStream({encoding: options.encoding ?? 'utf8'});
+      try {
+        for await (const line of readline.createInterface({input, crlfDelay: Infinity})) {
+          lines.push(line);
+          if (lines.length >= n) break;
+        }
+      } finally {
+        input.destroy();
+      }
+
+      return lines;
+    } catch (error) {
+      throw pathError(error, 'head', this._path);
+    }
   }
 
   /**
-   * Asynchronously open file.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_open_path_flags_mode
+   * Determine if path is an absolute path.
+   * @see https://nodejs.org/api/path.html#path_path_isabsolute_path
    */
-  async open(flags: string | number, mode?: string | number): Promise<fsPromises.FileHandle> {
-    return await fsPromises.open(this._path, flags, mode);
+  isAbsolute(): boolean {
+    return path.isAbsolute(this._path);
   }
 
   /**
-   * Asynchronously reads the entire contents of a file.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_readfile_path_options
+   * Check if the current path is an ancestor of another path, after both have been resolved to absolute paths. A path is
+   * not its own ancestor.
    */
-  async readFile(
-    options?: BufferEncoding | (fs.ObjectEncodingOptions & EventEmitter.Abortable & {flag?: fs.OpenMode})
-  ): Promise<string | Buffer> {
-    return await fsPromises.readFile(this._path, options);
+  isAncestorOf(other: Path | string): boolean {
+    return !this.equals(other) && isInside(this._path, other.toString());
   }
 
   /**
-   * Synchronously reads the entire contents of a file.
-   * @see https://nodejs.org/api/fs.html#fs_fs_readfilesync_path_options
+   * Asynchronously check if file is readable.
    */
-  readFileSync(options?: BufferEncoding | (fs.ObjectEncodingOptions & {flag?: string})): string | Buffer {
-    return fs.readFileSync(this._path, options);
+  async isReadable(): Promise<boolean> {
+    return await this.access(fs.constants.R_OK);
   }
 
   /**
-   * Returns the relative path from path to `to` based on the current working directory.
-   * @see https://nodejs.org/api/path.html#path_path_relative_from_to
+   * Synchronously check if file is readable.
    */
-  relative(to: Path | string): Path {
-    return new Path(path.relative(this._path, to.toString()));
+  isReadableSync(): boolean {
+    return this.accessSync(fs.constants.R_OK);
   }
 
   /**
-   * Asynchronously renames path to `newPath`.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_rename_oldpath_newpath
+   * Asynchronously check if file is writable.
    */
-  async rename(newPath: Path | string): Promise<void> {
-    return await fsPromises.rename(this._path, newPath.toString());
+  async isWritable(): Promise<boolean> {
+    return await this.access(fs.constants.W_OK);
   }
 
   /**
-   * Synchronously renames path to `newPath`.
-   * @see https://nodejs.org/api/fs.html#fs_fs_renamesync_oldpath_newpath
+   * Synchronously check if file is writable.
    */
-  renameSync(newPath: Path | string): void {
-    fs.renameSync(this._path, newPath.toString());
+  isWritableSync(): boolean {
+    return this.accessSync(fs.constants.W_OK);
   }
 
   /**
-   * Asynchronously computes the canonical pathname.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_realpath_path_options
+   * Find the `n` largest files in a directory tree (defaults to 10), sorted by size. Supports the same options as `du`
+   * (except for `children`).
+   * @example
+   * // Show the 5 biggest files
+   * for (const file of await new Path('/var/log').largest(5, {apparent: true})) {
+   *   console.log(`${file.bytes} ${file.path}`);
+   * }
    */
-  async realpath(options?: fs.ObjectEncodingOptions): Promise<Path> {
-    return await fsPromises.realpath(this._path, options).then(path => new Path(path));
+  async largest(n = 10, options: Omit<DuOptions, 'children'> = {}): Promise<FileSize[]> {
+    try {
+      const files: FileSize[] = [];
+      if (n <= 0) return files;
+
+      for await (const [file, stat] of duEntries(this, undefined, 0, options, new Set())) {
+        if (!stat.isFile()) continue;
+        const size = {blocks: Number(stat.blocks), bytes: duBytes(stat, options), path: file};
+
+        // Only keep the largest files
+        const index = files.findIndex(other => compareSizes(size, other) < 0);
+        if (index === -1) {
+          if (files.length < n) files.push(size);
+        } else {
+          files.splice(index, 0, size);
+          if (files.length > n) files.pop();
+        }
+      }
+
+      return files;
+    } catch (error) {
+      throw pathError(error, 'largest', this._path);
+    }
   }
 
   /**
-   * Synchronously computes the canonical pathname.
-   * @see https://nodejs.org/api/fs.html#fs_fs_realpathsync_path_options
+   * List files in directory, optionally filtered with `include` and `exclude` glob patterns relative to the directory.
+   * Directories are read in streaming fashion, depth-first by default or `breadthFirst`, and with a `concurrency` higher
+   * than 1 several directories are read in parallel (then the order of entries is not deterministic). Listing stops when
+   * the `signal` is aborted or the iterator is returned.
+   * @example
+   * // List files recursively
+   * const dir = new Path('/tmp');
+   * for await (const file of dir.list({recursive: true})) {
+   *   console.log(file.toString());
+   * }
+   *
+   * // List JavaScript files recursively, but skip tests
+   * for await (const file of dir.list({recursive: true, include: '**\/*.js', exclude: 'test/**'})) {
+   *   console.log(file.toString());
+   * }
+   *
+   * // List files recursively, but skip everything ignored by ".gitignore" files
+   * for await (const file of dir.list({recursive: true, ignoreFiles: ['.gitignore']})) {
+   *   console.log(file.toString());
+   * }
+   *
+   * // List entries with file types and sizes in a deterministic order, following symbolic links but skipping ".git"
+   * const filter = entry => entry.relative.toString() !== '.git';
+   * for await (const entry of dir.list({recursive: true, entries: true, followSymlinks: true, sort: true, filter})) {
+   *   const {size} = await entry.stat();
+   *   console.log(`${entry.relative} (depth: ${entry.depth}, directory: ${entry.isDirectory()}, size: ${size})`);
+   * }
+   *
+   * // List files recursively, reading 8 directories at a time and giving up after 10 seconds
+   * const signal = AbortSignal.timeout(10000);
+   * for await (const file of dir.list({recursive: true, concurrency: 8, signal})) {
+   *   console.log(file.toString());
+   * }
    */
-  realpathSync(options?: fs.ObjectEncodingOptions): Path {
-    return new Path(fs.realpathSync(this._path, options));
+  list(options: ListOptions & {entries: true}): AsyncIterable<PathEntry>;
+  list(options?: ListOptions): AsyncIterable<Path>;
+  async *list(options: ListOptions = {}): AsyncIterable<Path | PathEntry> {
+    try {
+      const glob =
+        options.include === undefined && options.exclude === undefined
+          ? undefined
+          : new Glob(options.include, options.exclude, {dot: options.hidden});
+      const root = {dir: this._path, parents: []};
+      const entries =
+        (options.concurrency ?? 1) > 1
+          ? walkDirParallel(this, root, options, glob)
+          : walkDir(this, root, options, glob);
+      for await (const entry of entries) {
+        yield options.entries === true ? entry : entry.path;
+      }
+    } catch (error) {
+      throw pathError(error, 'list', this._path);
+    }
   }
 
   /**
-   * Asynchronously removes files and directories (modeled on the standard POSIX `rm` utility).
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_rm_path_options
+   * List files in directory, optionally filtered with `include` and `exclude` glob patterns relative to the directory.
+   * @example
+   * // List files recursively, breadth-first
+   * for (const file of new Path('/tmp').listSync({recursive: true, breadthFirst: true})) {
+   *   console.log(file.toString());
+   * }
    */
-  async rm(options?: fs.RmOptions): Promise<void> {
-    return await fsPromises.rm(this._path, options);
+  listSync(options: ListSyncOptions & {entries: true}): Iterable<PathEntry>;
+  listSync(options?: ListSyncOptions): Iterable<Path>;
+  *listSync(options: ListSyncOptions = {}): Iterable<Path | PathEntry> {
+    try {
+      const glob =
+        options.include === undefined && options.exclude === undefined
+          ? undefined
+          : new Glob(options.include, options.exclude, {dot: options.hidden});
+      for (const entry of walkDirSync(this, {dir: this._path, parents: []}, options, glob)) {
+        yield options.entries === true ? entry : entry.path;
+      }
+    } catch (error) {
+      throw pathError(error, 'listSync', this._path);
+    }
   }
 
   /**
-   * Synchronously removes files and directories (modeled on the standard POSIX `rm` utility).
-   * @see https://nodejs.org/api/fs.html#fs_fs_rmsync_path_options
+   * Read file one line at a time.
+   * @example
+   * // Decode UTF-8 file
+   * const file = new Path('notes.txt');
+   * for await (const line of file.lines({encoding: 'utf8'})) {
+   *   console.log(line);
+   * }
    */
-  rmSync(options?: fs.RmOptions): void {
-    fs.rmSync(this._path, options);
+  lines(options?: stream.ReadableOptions): readline.Interface {
+    return readLines(this, 'lines', options);
   }
 
   /**
-   * Create a new `Path` object relative to the parent directory.
+   * Acquire an advisory lock for path, by creating a `.lock` directory next to it. The lock is refreshed periodically
+   * while held, and locks that have not been refreshed for `stale` milliseconds (defaults to 10000), or are held by dead
+   * processes on the same host, will be taken over. By default only one attempt is made, but you can use `retries`
+   * and/or `timeout` (in milliseconds) to wait for the lock to become available.
    * @example
-   * // "/home/kraih/users.txt"
-   * const notes = new Path('/home/kraih/notes.txt');
-   * const users = notes.sibling('users.txt');
+   * // Hold lock until the end of scope
+   * const dir = new Path('/home/kraih/cache');
+   * await using lock = await dir.lock({timeout: 5000});
+   * await dir.child('data.json').writeFile('{}');
    */
-  sibling(...parts: string[]): Path {
-    return this.dirname().child(...parts);
+  async lock(options: LockOptions = {}): Promise<Lock> {
+    try {
+      const lock = new Lock(`${this._path}.lock`);
+      lock._backend = this._backend;
+      const stale = options.stale ?? 10000;
+      const deadline = options.timeout === undefined ? undefined : Date.now() + options.timeout;
+
+      for (let attempt = 0; ; attempt++) {
+        options.signal?.throwIfAborted();
+        if (await lockAcquire(lock, stale)) return lockHeld(lock, stale);
+        if (!lockRetry(attempt, options.retries, deadline)) throw new LockedError(lock._path);
+        await timers.setTimeout(LOCK_RETRY_DELAY, undefined, {signal: options.signal});
+      }
+    } catch (error) {
+      throw pathError(error, 'lock', this._path);
+    }
   }
 
   /**
-   * Asynchronously retrieves stat information for the path.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_stat_path_options
+   * Acquire an advisory lock for path, blocking while waiting.
    */
-  async stat(options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats> {
-    return await fsPromises.stat(this._path, options);
+  lockSync(options: Omit<LockOptions, 'signal'> = {}): Lock {
+    try {
+      const lock = new Lock(`${this._path}.lock`);
+      lock._backend = this._backend;
+      const stale = options.stale ?? 10000;
+      const deadline = options.timeout === undefined ? undefined : Date.now() + options.timeout;
+
+      for (let attempt = 0; ; attempt++) {
+        if (lockAcquireSync(lock, stale)) return lockHeld(lock, stale);
+        if (!lockRetry(attempt, options.retries, deadline)) throw new LockedError(lock._path);
+        Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_DELAY);
+      }
+    } catch (error) {
+      throw pathError(error, 'lockSync', this._path);
+    }
   }
 
   /**
-   * Synchronously retrieves stat information for the path.
-   * @see https://nodejs.org/api/fs.html#fs_fs_statsync_path_options
+   * Equivalent to `stat` unless path refers to a symbolic link, in which case the link itself is stat-ed, not the file
+   * that it refers to.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_lstat_path_options
    */
-  statSync(options?: fs.StatOptions): fs.Stats | fs.BigIntStats | undefined {
-    return fs.statSync(this._path, options);
+  async lstat(options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats> {
+    try {
+      return await this.backend.lstat(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'lstat', this._path);
+    }
   }
 
   /**
-   * Asynchronously creates a symbolic link.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_symlink_target_path_type
+   * Equivalent to `statSync` unless path refers to a symbolic link, in which case the link itself is stat-ed, not the
+   * file that it refers to.
+   * @see https://nodejs.org/api/fs.html#fs_fs_lstatsync_path_options
    */
-  async symlink(link: Path | string, type?: fs.symlink.Type): Promise<this> {
-    await fsPromises.symlink(this._path, link.toString(), type);
-    return this;
+  lstatSync(options?: fs.StatOptions): fs.Stats | fs.BigIntStats | undefined {
+    try {
+      return this.backend.lstatSync(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'lstatSync', this._path);
+    }
   }
 
   /**
-   * Synchronously creates a symbolic link.
-   * @see https://nodejs.org/api/fs.html#fs_fs_symlinksync_target_path_type
+   * Create a manifest for all files in directory, with relative paths (using `/` as separator) as keys and content
+   * hashes as values, sorted by path.
+   * @example
+   * // Create release manifest
+   * const manifest = await new Path('dist').manifest({algorithm: 'sha512'});
+   * await new Path('manifest.json').writeFile(JSON.stringify(manifest));
    */
-  symlinkSync(link: Path | string, type?: fs.symlink.Type): this {
-    fs.symlinkSync(this._path, link.toString(), type);
-    return this;
+  async manifest(options: ManifestOptions = {}): Promise<Record<string, string>> {
+    try {
+      const {algorithm, encoding, ...listOptions} = options;
+
+      const hashes = new Map<string, string>();
+      for await (const file of this.list({...listOptions, recursive: true})) {
+        hashes.set(this.relative(file).toArray().join('/'), await file.hash(algorithm, {encoding}));
+      }
+
+      return Object.fromEntries([...hashes.entries()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    } catch (error) {
+      throw pathError(error, 'manifest', this._path);
+    }
   }
 
   /**
-   * Asynchronously truncates (shortens or extends the length) of the file.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_truncate_path_len
-   */
-  async truncate(len?: number): Promise<this> {
-    await fsPromises.truncate(this._path, len);
+   * Create a tree of files, directories and symbolic links from an object. Keys ending with a `/` (slash) are
+   * directories and must have plain objects as values, strings and buffers are file contents, `null` is an empty file,
+   * and all other values are serialized as JSON. Keys may contain slashes to create missing parent directories.
+   * @example
+   * // Create test fixtures in a temporary directory
+   * const dir = await Path.tempDir();
+   * await dir.materialize({
+   *   'a.txt': 'hi',
+   *   'sub/': {'b.json': {foo: 'bar'}},
+   *   'link': Path.symlinkTo('a.txt')
+   * });
+   */
+  async materialize(tree: Tree): Promise<this> {
+    try {
+      await this.mkdir({recursive: true});
+
+      for (const [name, entry] of Object.entries(tree)) {
+        const target = this.child(...treeParts(name));
+        if (name.endsWith('/')) {
+          if (!treeIsDir(entry)) throw new Error(`Invalid tree entry for directory ${name}: expected an object`);
+          await target.materialize(entry);
+          continue;
+        }
+
+        await target.dirname().mkdir({recursive: true});
+        if (entry instanceof TreeSymlink) {
+          await this.backend.symlink(entry.target, target._path);
+        } else if (entry instanceof TreeFile) {
+          await target.writeFile(treeContent(entry.content));
+          if (entry.mode !== undefined) await target.chmod(entry.mode);
+        } else {
+          await target.writeFile(treeContent(entry as Buffer | JSONValue));
+        }
+      }
+    } catch (error) {
+      throw pathError(error, 'materialize', this._path);
+    }
     return this;
   }
 
   /**
-   * Synchronously truncates (shortens or extends the length) of the file.
-   * @see https://nodejs.org/api/fs.html#fs_fs_truncatesync_path_len
+   * Asynchronously creates a directory.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_mkdir_path_options
    */
-  truncateSync(len?: number): this {
-    fs.truncateSync(this._path, len);
+  async mkdir(options?: fs.MakeDirectoryOptions & {recursive: true}): Promise<this> {
+    try {
+      await this.backend.mkdir(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'mkdir', this._path);
+    }
     return this;
   }
 
   /**
-   * Create a new `TempDir` object (`Path` subclass with `destroy` and `destroySync` methods) for a temporary directory.
+   * Synchronously creates a directory.
+   * @see https://nodejs.org/api/fs.html#fs_fs_mkdirsync_path_options
    */
-  static async tempDir(options?: fs.ObjectEncodingOptions & {dir?: Path; name?: string}): Promise<TempDir> {
-    return await fsPromises.mkdtemp(tempDirPrefix(options?.dir, options?.name), options).then(path => {
-      tempDirCleanup.push(path);
-      return new TempDir(path);
-    });
+  mkdirSync(options?: fs.MakeDirectoryOptions & {recursive: true}): this {
+    try {
+      this.backend.mkdirSync(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'mkdirSync', this._path);
+    }
+    return this;
   }
 
   /**
-   * Create a new `TempDir` object (`Path` subclass with `destroy` and `destroySync` methods) for a temporary directory.
+   * Asynchronously move file or directory to destination, falls back to copying and removing the original if it cannot
+   * be renamed because source and destination are on different file systems.
+   * @example
+   * // Move directory out of a temporary directory
+   * const dir = await Path.tempDir();
+   * const target = await dir.child('build').move('/home/kraih/build');
    */
-  static tempDirSync(options?: fs.ObjectEncodingOptions & {dir?: Path; name?: string}): TempDir {
-    const dir = fs.mkdtempSync(tempDirPrefix(options?.dir, options?.name), options);
-    tempDirCleanup.push(dir);
-    return new TempDir(dir);
+  async move(destination: Path | string): Promise<Path> {
+    try {
+      try {
+        await this.backend.rename(this._path, destination.toString());
+      } catch (error) {
+        if ((error as NodeError).code !== 'EXDEV') throw error;
+        await this.backend.cp(this._path, destination.toString(), MOVE_OPTIONS);
+        await this.backend.rm(this._path, {recursive: true});
+      }
+
+      return this._derive(destination.toString());
+    } catch (error) {
+      throw pathError(error, 'move', this._path);
+    }
   }
 
   /**
-   * Create file if it does not exist or change the modification and access time to the current time.
+   * Synchronously move file or directory to destination, falls back to copying and removing the original if it cannot
+   * be renamed because source and destination are on different file systems.
    */
-  async touch(): Promise<this> {
-    const now = new Date();
+  moveSync(destination: Path | string): Path {
     try {
-      await fsPromises.utimes(this._path, now, now);
+      try {
+        this.backend.renameSync(this._path, destination.toString());
+      } catch (error) {
+        if ((error as NodeError).code !== 'EXDEV') throw error;
+        this.backend.cpSync(this._path, destination.toString(), MOVE_OPTIONS);
+        this.backend.rmSync(this._path, {recursive: true});
+      }
+
+      return this._derive(destination.toString());
     } catch (error) {
-      await this.open('w').then(async value => await value.close());
+      throw pathError(error, 'moveSync', this._path);
     }
+  }
 
-    return this;
+  /**
+   * Normalizes the given path, resolving `..` and `.` segments.
+   * @see https://nodejs.org/api/path.html#path_path_normalize_path
+   */
+  normalize(): Path {
+    return this._derive(path.normalize(this._path));
   }
 
   /**
-   * Create file if it does not exist or change the modification and access time to the current time.
+   * Asynchronously open file.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_open_path_flags_mode
    */
-  touchSync(): this {
-    const now = new Date();
+  async open(flags: string | number, mode?: string | number): Promise<fsPromises.FileHandle> {
     try {
-      fs.utimesSync(this._path, now, now);
+      return await this.backend.open(this._path, flags, mode);
     } catch (error) {
-      fs.closeSync(fs.openSync(this._path, 'w'));
+      throw pathError(error, 'open', this._path);
     }
+  }
 
-    return this;
+  /**
+   * Pack directory into a tar archive (ustar format, with pax extended headers for long names), optionally compressed
+   * with gzip. Modes, modification times and symbolic links are preserved, the `filter` function receives relative paths
+   * and can be used to skip entries (and everything inside of them). With the `portable` option, user and group ids are
+   * omitted.
+   * @example
+   * // Create compressed archive without log files
+   * await new Path('build').pack('build.tar.gz', {gzip: true, filter: file => file.extname() !== '.log'});
+   */
+  async pack(destination: Path | string, options: PackOptions = {}): Promise<Path> {
+    try {
+      const archive = typeof destination === 'string' ? this._derive(destination) : destination;
+      const input = stream.Readable.from(packEntries(this, archive, options));
+      const output = archive.createWriteStream();
+      if (options.gzip === true) {
+        await stream.promises.pipeline(input, zlib.createGzip(), output);
+      } else {
+        await stream.promises.pipeline(input, output);
+      }
+      return archive;
+    } catch (error) {
+      throw pathError(error, 'pack', this._path);
+    }
   }
 
   /**
-   * Split the path.
+   * Iterate over all parent directories, from the closest one up to the root directory.
+   * @example
+   * // "/home/kraih", "/home" and "/"
+   * for (const dir of new Path('/home/kraih/notes.txt').parents()) {
+   *   console.log(dir.toString());
+   * }
    */
-  toArray(): string[] {
-    return this._path.split(path.sep);
+  *parents(): Iterable<Path> {
+    let current = this._path;
+    for (let parent = path.dirname(current); parent !== current; parent = path.dirname(current)) {
+      current = parent;
+      yield this._derive(current);
+    }
   }
 
   /**
-   * Convert path into a `file://` `URL` object.
+   * Find the project root directory, starting from the caller source file and stopping at the first directory that
+   * contains one of the `markers` (defaults to `package.json` and `.git`). Returns `undefined` if there is none.
+   * @example
+   * // Load configuration file from project root
+   * const root = await Path.projectRoot();
+   * const config = await root.child('config.json').readFile('utf8');
    */
-  toFileURL(): URL {
-    return url.pathToFileURL(this._path);
+  static async projectRoot(options: ProjectRootOptions = {}): Promise<Path | undefined> {
+    const dir = projectRootStart();
+    const marker = await dir.findUp(options.markers ?? PROJECT_MARKERS, {stopAt: options.stopAt});
+    return marker?.dirname();
   }
 
   /**
-   * Returns an object whose properties represent significant elements of the path.
+   * Find the project root directory, starting from the caller source file.
    */
-  toObject(): path.ParsedPath {
-    return path.parse(this._path);
+  static projectRootSync(options: ProjectRootOptions = {}): Path | undefined {
+    const dir = projectRootStart();
+    return dir.findUpSync(options.markers ?? PROJECT_MARKERS, {stopAt: options.stopAt})?.dirname();
   }
 
   /**
-   * Convert path into a string.
+   * Asynchronously read and parse a `.env` file with `NAME=value` assignments. Lines starting with `#` are comments,
+   * values can be single quoted (used verbatim) or double quoted (with `\n`, `\r` and `\t` escapes), and quoted
+   * values may span multiple lines. Syntax errors are thrown as `ParseError` objects with the path, line and column.
+   * @example
+   * // Load environment variables
+   * Object.assign(process.env, await new Path('.env').readEnv());
    */
-  toString(): string {
-    return `${this._path}`;
+  async readEnv(): Promise<Record<string, string>> {
+    return parseEnv((await this.readFile('utf8')) as string, this._path);
   }
 
   /**
-   * Change the file system timestamps of the object referenced by path.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_utimes_path_atime_mtime
+   * Synchronously read and parse a `.env` file.
    */
-  async utimes(atime: string | number | Date, mtime: string | number | Date): Promise<this> {
-    await fsPromises.utimes(this._path, atime, mtime);
-    return this;
+  readEnvSync(): Record<string, string> {
+    return parseEnv(this.readFileSync('utf8') as string, this._path);
   }
 
   /**
-   * Change the file system timestamps of the object referenced by path.
-   * @see https://nodejs.org/api/fs.html#fs_fs_utimessync_path_atime_mtime
+   * Asynchronously reads the entire contents of a file.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_readfile_path_options
    */
-  utimesSync(atime: string | number | Date, mtime: string | number | Date): this {
-    fs.utimesSync(this._path, atime, mtime);
-    return this;
+  async readFile(
+    options?: BufferEncoding | (fs.ObjectEncodingOptions & EventEmitter.Abortable & {flag?: fs.OpenMode})
+  ): Promise<string | Buffer> {
+    try {
+      return await this.backend.readFile(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'readFile', this._path);
+    }
   }
 
   /**
-   * Asynchronously writes data to a file, replacing the file if it already exists.
-   * @see https://nodejs.org/api/fs.html#fs_fspromises_writefile_file_data_options
+   * Synchronously reads the entire contents of a file.
+   * @see https://nodejs.org/api/fs.html#fs_fs_readfilesync_path_options
    */
-  async writeFile(
-    data: string | Uint8Array,
-    options?: fs.ObjectEncodingOptions & {mode?: fs.Mode; flag?: fs.OpenMode} & EventEmitter.Abortable
-  ): Promise<this> {
-    await fsPromises.writeFile(this._path, data, options);
-    return this;
+  readFileSync(options?: BufferEncoding | (fs.ObjectEncodingOptions & {flag?: string})): string | Buffer {
+    try {
+      return this.backend.readFileSync(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'readFileSync', this._path);
+    }
   }
 
   /**
-   * Synchronously writes data to a file, replacing the file if it already exists.
-   * @see https://nodejs.org/api/fs.html#fs_fs_writefilesync_file_data_options
+   * Asynchronously read and parse a JSON file, a UTF-8 byte order mark is ignored. Syntax errors are thrown as
+   * `ParseError` objects with the path, line and column.
+   * @example
+   * // Read "version" from package.json
+   * const {version} = await new Path('package.json').readJSON();
    */
-  writeFileSync(data: string | Uint8Array, options?: fs.WriteFileOptions): this {
-    fs.writeFileSync(this._path, data, options);
-    return this;
+  async readJSON<T = JSONValue>(): Promise<T> {
+    return parseJSON(stripBOM((await this.readFile('utf8')) as string), this._path) as T;
   }
-}
 
-class TempDir extends Path {
-  async [Symbol.asyncDispose]() {
-    await this.destroy();
+  /**
+   * Synchronously read and parse a JSON file.
+   */
+  readJSONSync<T = JSONValue>(): T {
+    return parseJSON(stripBOM(this.readFileSync('utf8') as string), this._path) as T;
   }
 
-  [Symbol.dispose]() {
-    this.destroySync();
+  /**
+   * Read records from a newline delimited JSON (NDJSON) file one line at a time, empty lines are skipped. Syntax errors
+   * are thrown as `ParseError` objects with the path, line and column.
+   * @example
+   * // Process events from log
+   * for await (const event of new Path('events.ndjson').readRecords()) {
+   *   console.log(event.type);
+   * }
+   */
+  async *readRecords<T = JSONValue>(): AsyncIterable<T> {
+    try {
+      let number = 0;
+      for await (const line of readLines(this, 'readRecords', {encoding: 'utf8'})) {
+        number++;
+        const record = number === 1 ? stripBOM(line) : line;
+        if (record.trim() !== '') yield parseJSON(record, this._path, number) as T;
+      }
+    } catch (error) {
+      throw pathError(error, 'readRecords', this._path);
+    }
   }
 
   /**
-   * Asynchronously remove temporary directory.
+   * Read records from a newline delimited JSON (NDJSON) file.
    */
-  async destroy(): Promise<void> {
-    await fsPromises.rm(this._path, {recursive: true});
-    tempDirRemoved(this._path);
+  *readRecordsSync<T = JSONValue>(): Iterable<T> {
+    const lines = stripBOM(this.readFileSync('utf8') as string).split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].trim() !== '') yield parseJSON(lines[i], this._path, i + 1) as T;
+    }
   }
 
   /**
-   * Synchronously remove temporary directory.
+   * Returns the relative path from path to `to` based on the current working directory.
+   * @see https://nodejs.org/api/path.html#path_path_relative_from_to
    */
-  destroySync(): void {
-    fs.rmSync(this._path, {recursive: true});
-    tempDirRemoved(this._path);
+  relative(to: Path | string): Path {
+    return this._derive(path.relative(this._path, to.toString()));
   }
-}
 
-function tempDirPrefix(dir?: Path, name?: string) {
-  return path.join(dir === undefined ? os.tmpdir() : dir.toString(), name ?? 'node-');
-}
+  /**
+   * Asynchronously renames path to `newPath`.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_rename_oldpath_newpath
+   */
+  async rename(newPath: Path | string): Promise<void> {
+    try {
+      return await this.backend.rename(this._path, newPath.toString());
+    } catch (error) {
+      throw pathError(error, 'rename', this._path);
+    }
+  }
+
+  /**
+   * Synchronously renames path to `newPath`.
+   * @see https://nodejs.org/api/fs.html#fs_fs_renamesync_oldpath_newpath
+   */
+  renameSync(newPath: Path | string): void {
+    try {
+      this.backend.renameSync(this._path, newPath.toString());
+    } catch (error) {
+      throw pathError(error, 'renameSync', this._path);
+    }
+  }
+
+  /**
+   * Asynchronously computes the canonical pathname.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_realpath_path_options
+   */
+  async realpath(options?: fs.ObjectEncodingOptions): Promise<Path> {
+    try {
+      return await this.backend.realpath(this._path, options).then(path => this._derive(path));
+    } catch (error) {
+      throw pathError(error, 'realpath', this._path);
+    }
+  }
+
+  /**
+   * Synchronously computes the canonical pathname.
+   * @see https://nodejs.org/api/fs.html#fs_fs_realpathsync_path_options
+   */
+  realpathSync(options?: fs.ObjectEncodingOptions): Path {
+    try {
+      return this._derive(this.backend.realpathSync(this._path, options));
+    } catch (error) {
+      throw pathError(error, 'realpathSync', this._path);
+    }
+  }
+
+  /**
+   * Asynchronously removes files and directories (modeled on the standard POSIX `rm` utility).
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_rm_path_options
+   */
+  async rm(options?: fs.RmOptions): Promise<void> {
+    try {
+      return await this.backend.rm(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'rm', this._path);
+    }
+  }
+
+  /**
+   * Synchronously removes files and directories (modeled on the standard POSIX `rm` utility).
+   * @see https://nodejs.org/api/fs.html#fs_fs_rmsync_path_options
+   */
+  rmSync(options?: fs.RmOptions): void {
+    try {
+      this.backend.rmSync(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'rmSync', this._path);
+    }
+  }
+
+  /**
+   * Create a new `Path` object relative to the current path, like `child`, but throw an `UnsafePathError` if the
+   * normalized result would end up outside of the current path. Segments with NUL bytes and absolute segments (including
+   * Windows drive letters and UNC paths) are rejected as well.
+   * @example
+   * // Throws for "../../etc/passwd"
+   * const file = new Path('/srv/uploads').safeChild(userSuppliedName);
+   */
+  safeChild(...parts: string[]): Path {
+    for (const part of parts) {
+      if (part.includes('\0')) {
+        throw new UnsafePathError(`Path segment contains NUL byte: ${JSON.stringify(part)}`, this._path, part);
+      }
+      if (path.isAbsolute(part) || /^(?:[a-zA-Z]:|[\\/]{2})/.test(part)) {
+        throw new UnsafePathError(`Path segment is absolute: ${part}`, this._path, part);
+      }
+    }
+
+    const child = this.child(...parts);
+    if (!isInside(this._path, child._path)) {
+      throw new UnsafePathError(`Path is outside of ${this._path}: ${child._path}`, this._path, child._path);
+    }
+    return child;
+  }
+
+  /**
+   * Create a new `Path` object relative to the parent directory.
+   * @example
+   * // "/home/kraih/users.txt"
+   * const notes = new Path('/home/kraih/notes.txt');
+   * const users = notes.sibling('users.txt');
+   */
+  sibling(...parts: string[]): Path {
+    return this.dirname().child(...parts);
+  }
+
+  /**
+   * Create an object from the tree of files, directories and symbolic links, in the same format `materialize` accepts.
+   * File contents are returned as strings (or buffers for binary data), and files with a `.json` extension are parsed.
+   * Hidden files are only included with the `hidden` option, and the `modes` option returns files as `Path.file`
+   * entries with their mode.
+   * @example
+   * // Compare directory with expected tree
+   * t.same(await dir.snapshot(), {'a.txt': 'hi', 'sub/': {'b.json': {foo: 'bar'}}, 'link': Path.symlinkTo('a.txt')});
+   *
+   * // Only file names
+   * const tree = await dir.snapshot({contents: false});
+   */
+  async snapshot(options: SnapshotOptions = {}): Promise<Tree> {
+    try {
+      const names: string[] = [];
+      for await (const file of this.list({dir: true, hidden: options.hidden})) {
+        names.push(file.basename());
+      }
+
+      const tree: Tree = {};
+      for (const name of names.sort()) {
+        const file = this.child(name);
+        const stat = await file.lstat();
+        if (stat.isDirectory()) {
+          tree[`${name}/`] = await file.snapshot(options);
+        } else if (stat.isSymbolicLink()) {
+          tree[name] = new TreeSymlink(await this.backend.readlink(file._path));
+        } else {
+          const content = options.contents === false ? null : treeSnapshot((await file.readFile()) as Buffer, name);
+          tree[name] = options.modes === true ? new TreeFile(content, Number(stat.mode) & 0o7777) : content;
+        }
+      }
+
+      return tree;
+    } catch (error) {
+      throw pathError(error, 'snapshot', this._path);
+    }
+  }
+
+  /**
+   * Asynchronously retrieves stat information for the path.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_stat_path_options
+   */
+  async stat(options?: fs.StatOptions): Promise<fs.Stats | fs.BigIntStats> {
+    try {
+      return await this.backend.stat(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'stat', this._path);
+    }
+  }
+
+  /**
+   * Synchronously retrieves stat information for the path.
+   * @see https://nodejs.org/api/fs.html#fs_fs_statsync_path_options
+   */
+  statSync(options?: fs.StatOptions): fs.Stats | fs.BigIntStats | undefined {
+    try {
+      return this.backend.statSync(this._path, options);
+    } catch (error) {
+      throw pathError(error, 'statSync', this._path);
+    }
+  }
+
+  /**
+   * Return the last portion of the path without its extension, or without all extensions with the `all` option.
+   * @example
+   * // "archive.tar"
+   * new Path('/home/kraih/archive.tar.gz').stem();
+   *
+   * // "archive"
+   * new Path('/home/kraih/archive.tar.gz').stem({all: true});
+   */
+  stem(options: SuffixOptions = {}): string {
+    const name = this.basename();
+    const suffix = options.all === true ? this.suffixes().join('') : this.extname();
+    return name.substring(0, name.length - suffix.length);
+  }
+
+  /**
+   * Return all extensions of the path, leading dots of hidden files are not considered extensions.
+   * @example
+   * // [".tar", ".gz"]
+   * new Path('/home/kraih/archive.tar.gz').suffixes();
+   */
+  suffixes(): string[] {
+    const suffixes = [];
+    let name = this.basename();
+    for (let ext = path.extname(name); ext !== ''; ext = path.extname(name)) {
+      suffixes.unshift(ext);
+      name = name.substring(0, name.length - ext.length);
+    }
+    return suffixes;
+  }
+
+  /**
+   * Asynchronously creates a symbolic link.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_symlink_target_path_type
+   */
+  async symlink(link: Path | string, type?: fs.symlink.Type): Promise<this> {
+    try {
+      await this.backend.symlink(this._path, link.toString(), type);
+    } catch (error) {
+      throw pathError(error, 'symlink', this._path);
+    }
+    return this;
+  }
 
-let tempDirCleanup: string[] = [];
-function tempDirRemoved(path: string): void {
-  tempDirCleanup = tempDirCleanup.filter(tempPath => tempPath !== path);
+  /**
+   * Synchronously creates a symbolic link.
+   * @see https://nodejs.org/api/fs.html#fs_fs_symlinksync_target_path_type
+   */
+  symlinkSync(link: Path | string, type?: fs.symlink.Type): this {
+    try {
+      this.backend.symlinkSync(this._path, link.toString(), type);
+    } catch (error) {
+      throw pathError(error, 'symlinkSync', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Create a symbolic link entry for `materialize`, the target is used verbatim.
+   */
+  static symlinkTo(target: string): TreeSymlink {
+    return new TreeSymlink(target);
+  }
+
+  /**
+   * One-way sync from directory to `destination`, copying only what has changed according to `diff` (with the same
+   * options). Entries that have been removed from the directory are only deleted from the destination with the `delete`
+   * option. The `filter` function receives relative paths and can be used to skip entries (and everything inside of
+   * them). The destination may use a different backend, like a `MemoryBackend`. Returns a report of what was done, or
+   * with the `dryRun` option, what would have been done.
+   * @example
+   * // Mirror directory and delete files that no longer exist
+   * const report = await new Path('build').syncTo('/srv/www', {recursive: true, delete: true});
+   * console.log(`${report.copied.length} files copied, ${report.deleted.length} deleted`);
+   */
+  async syncTo(destination: Path | string, options: SyncOptions = {}): Promise<SyncReport> {
+    try {
+      const {delete: remove, dryRun, filter, ...diffOptions} = options;
+      const target = typeof destination === 'string' ? this._derive(destination) : destination;
+      const diff = await this.diff(target, diffOptions);
+      const apply = dryRun !== true;
+      if (apply) await target.mkdir({recursive: true});
+
+      const report: SyncReport = {copied: [], created: [], deleted: [], skipped: []};
+      const skipped: string[] = [];
+      const accept = async (file: Path): Promise<boolean> => {
+        if (skipped.some(name => file._path === name || file._path.startsWith(name + path.sep))) return false;
+        if (filter === undefined || (await filter(file))) return true;
+        skipped.push(file._path);
+        report.skipped.push(file);
+        return false;
+      };
+
+      // Entries that changed type need to be removed before they can be replaced
+      const removed = remove === true ? diff.removed : [];
+      for (const file of sortPaths([...removed, ...diff.typeChanged])) {
+        if (!(await accept(file))) continue;
+        if (apply) await target.child(file._path).rm({recursive: true, force: true});
+        if (removed.includes(file)) report.deleted.push(file);
+      }
+
+      for (const file of sortPaths([...diff.added, ...diff.changed, ...diff.typeChanged])) {
+        if (!(await accept(file))) continue;
+
+        const source = this.child(file._path);
+        const dest = target.child(file._path);
+        if ((await source.lstat()).isDirectory()) {
+          if (apply) await dest.mkdir({recursive: true});
+          report.created.push(file);
+        } else {
+          if (apply) await syncCopy(source, dest);
+          report.copied.push(file);
+        }
+      }
+
+      return report;
+    } catch (error) {
+      throw pathError(error, 'syncTo', this._path);
+    }
+  }
+
+  /**
+   * Read the last `n` lines of a file (defaults to 10), reading backwards from the end in chunks, so only a small part
+   * of large files needs to be read.
+   * @example
+   * // Show the last errors from a log file
+   * const lines = await new Path('/var/log/app.log').tail(20);
+   */
+  async tail(n = 10, options: LinesOptions = {}): Promise<string[]> {
+    try {
+      if (n <= 0) return [];
+      const {buffer} = await tailBuffer(this, n, Number((await this.stat()).size));
+      const content = buffer.toString(options.encoding ?? 'utf8');
+      if (content === '') return [];
+      return content.replace(/\r?\n$/, '').split(/\r?\n/);
+    } catch (error) {
+      throw pathError(error, 'tail', this._path);
+    }
+  }
+
+  /**
+   * Asynchronously truncates (shortens or extends the length) of the file.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_truncate_path_len
+   */
+  async truncate(len?: number): Promise<this> {
+    try {
+      await this.backend.truncate(this._path, len);
+    } catch (error) {
+      throw pathError(error, 'truncate', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Synchronously truncates (shortens or extends the length) of the file.
+   * @see https://nodejs.org/api/fs.html#fs_fs_truncatesync_path_len
+   */
+  truncateSync(len?: number): this {
+    try {
+      this.backend.truncateSync(this._path, len);
+    } catch (error) {
+      throw pathError(error, 'truncateSync', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Create a new `TempDir` object (`Path` subclass with `destroy` and `destroySync` methods) for a temporary directory.
+   */
+  static async tempDir(options?: fs.ObjectEncodingOptions & {dir?: Path; name?: string}): Promise<TempDir> {
+    try {
+      const backend = options?.dir?.backend ?? Path.backend;
+      return await backend.mkdtemp(tempDirPrefix(options?.dir, options?.name), options).then(path => {
+        return tempCreated(new TempDir(path), options?.dir);
+      });
+    } catch (error) {
+      throw pathError(error, 'tempDir', options?.dir?._path ?? os.tmpdir());
+    }
+  }
+
+  /**
+   * Create a new `TempDir` object (`Path` subclass with `destroy` and `destroySync` methods) for a temporary directory.
+   */
+  static tempDirSync(options?: fs.ObjectEncodingOptions & {dir?: Path; name?: string}): TempDir {
+    try {
+      const backend = options?.dir?.backend ?? Path.backend;
+      const path = backend.mkdtempSync(tempDirPrefix(options?.dir, options?.name), options);
+      return tempCreated(new TempDir(path), options?.dir);
+    } catch (error) {
+      throw pathError(error, 'tempDirSync', options?.dir?._path ?? os.tmpdir());
+    }
+  }
+
+  /**
+   * Create a new `TempFile` object (`Path` subclass with `destroy` and `destroySync` methods) for a temporary file.
+   * @example
+   * // Create a temporary file with content and a file extension
+   * const file = await Path.tempFile({prefix: 'mojo-', suffix: '.json', data: '{}'});
+   */
+  static async tempFile(options: TempFileOptions = {}): Promise<TempFile> {
+    try {
+      const backend = options.dir?.backend ?? Path.backend;
+      const file = tempFilePath(options);
+      await backend.writeFile(file, options.data ?? '', {flag: 'wx', mode: 0o600});
+      return tempCreated(new TempFile(file), options.dir);
+    } catch (error) {
+      throw pathError(error, 'tempFile', options.dir?._path ?? os.tmpdir());
+    }
+  }
+
+  /**
+   * Create a new `TempFile` object (`Path` subclass with `destroy` and `destroySync` methods) for a temporary file.
+   */
+  static tempFileSync(options: TempFileOptions = {}): TempFile {
+    try {
+      const backend = options.dir?.backend ?? Path.backend;
+      const file = tempFilePath(options);
+      backend.writeFileSync(file, options.data ?? '', {flag: 'wx', mode: 0o600});
+      return tempCreated(new TempFile(file), options.dir);
+    } catch (error) {
+      throw pathError(error, 'tempFileSync', options.dir?._path ?? os.tmpdir());
+    }
+  }
+
+  /**
+   * Create file if it does not exist or change the modification and access time to the current time.
+   */
+  async touch(): Promise<this> {
+    const now = new Date();
+    try {
+      await this.backend.utimes(this._path, now, now);
+    } catch (error) {
+      if ((error as NodeError).code !== 'ENOENT') throw pathError(error, 'touch', this._path);
+      await this.backend.writeFile(this._path, '', {flag: 'a'}).catch(error => {
+        throw pathError(error, 'touch', this._path);
+      });
+    }
+
+    return this;
+  }
+
+  /**
+   * Create file if it does not exist or change the modification and access time to the current time.
+   */
+  touchSync(): this {
+    const now = new Date();
+    try {
+      this.backend.utimesSync(this._path, now, now);
+    } catch (error) {
+      if ((error as NodeError).code !== 'ENOENT') throw pathError(error, 'touchSync', this._path);
+      try {
+        this.backend.writeFileSync(this._path, '', {flag: 'a'});
+      } catch (error) {
+        throw pathError(error, 'touchSync', this._path);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Split the path.
+   */
+  toArray(): string[] {
+    return this._path.split(path.sep);
+  }
+
+  /**
+   * Convert path into a `file://` `URL` object.
+   */
+  toFileURL(): URL {
+    return url.pathToFileURL(this._path);
+  }
+
+  /**
+   * Returns an object whose properties represent significant elements of the path.
+   */
+  toObject(): path.ParsedPath {
+    return path.parse(this._path);
+  }
+
+  /**
+   * Convert path into a string.
+   */
+  toString(): string {
+    return `${this._path}`;
+  }
+
+  /**
+   * Unpack tar archive into directory, gzip compression is detected automatically. Modes, modification times and
+   * symbolic links are preserved, and entries that would end up outside of the directory are refused with an
+   * `UnsafePathError`. Setuid and setgid bits are removed from modes, unless `preserveSetuid` is enabled. The `strip`
+   * option removes leading path segments from entry names, and the `filter` function receives the resulting relative
+   * paths.
+   * @example
+   * // Unpack archive without its top level directory
+   * await new Path('/tmp/release').unpack('release.tar.gz', {strip: 1});
+   */
+  async unpack(archive: Path | string, options: UnpackOptions = {}): Promise<this> {
+    try {
+      const file = typeof archive === 'string' ? this._derive(archive) : archive;
+      await this.mkdir({recursive: true});
+
+      let magic = Buffer.alloc(0);
+      for await (const chunk of file.createReadStream({start: 0, end: 1})) {
+        magic = Buffer.concat([magic, chunk]);
+      }
+      const input: AsyncIterable<Buffer> =
+        magic[0] === 0x1f && magic[1] === 0x8b
+          ? stream.pipeline(file.createReadStream(), zlib.createGunzip(), () => undefined)
+          : file.createReadStream();
+
+      const modeMask = options.preserveSetuid === true ? 0o7777 : 0o1777;
+      const dirs: Array<[Path, TarHeader]> = [];
+      for await (const {header, body} of readTar(input)) {
+        const parts = unpackParts(this, header.name, options.strip ?? 0);
+        if (parts === null) continue;
+        if (options.filter !== undefined && !(await options.filter(this._derive(...parts)))) continue;
+
+        const target = this.child(...parts);
+        await unpackCheckParents(this, parts);
+        if (header.type === '5') {
+          // Earlier entries might have created a symbolic link with the same name
+          if ((await target.lstat().catch(() => null))?.isSymbolicLink() === true) await target.rm();
+          await target.mkdir({recursive: true});
+          dirs.push([target, header]);
+          continue;
+        }
+        if (header.type !== '0' && header.type !== '1' && header.type !== '2' && header.type !== '7') continue;
+
+        await target.dirname().mkdir({recursive: true});
+        await target.rm({recursive: true, force: true});
+        if (header.type === '2') {
+          await target.backend.symlink(header.linkname, target._path);
+          continue;
+        }
+
+        if (header.type === '1') {
+          const linkParts = unpackParts(this, header.linkname, options.strip ?? 0);
+          if (linkParts === null) continue;
+          await unpackCheckParents(this, linkParts);
+
+          // Copying would follow symbolic links to files outside of the directory
+          const source = this.child(...linkParts);
+          if ((await source.lstat()).isSymbolicLink()) {
+            const message = `Refusing to unpack hard link to symbolic link: ${header.name}`;
+            throw new UnsafePathError(message, this._path, header.name);
+          }
+          await source.copyFile(target);
+        } else {
+          await stream.promises.pipeline(stream.Readable.from(body), target.createWriteStream());
+        }
+        await unpackAttributes(target, header, modeMask);
+      }
+
+      // Directories might not be writable anymore once their mode has been applied
+      for (const [dir, header] of dirs.reverse()) {
+        await unpackAttributes(dir, header, modeMask);
+      }
+    } catch (error) {
+      throw pathError(error, 'unpack', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Change the file system timestamps of the object referenced by path.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_utimes_path_atime_mtime
+   */
+  async utimes(atime: string | number | Date, mtime: string | number | Date): Promise<this> {
+    try {
+      await this.backend.utimes(this._path, atime, mtime);
+    } catch (error) {
+      throw pathError(error, 'utimes', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Change the file system timestamps of the object referenced by path.
+   * @see https://nodejs.org/api/fs.html#fs_fs_utimessync_path_atime_mtime
+   */
+  utimesSync(atime: string | number | Date, mtime: string | number | Date): this {
+    try {
+      this.backend.utimesSync(this._path, atime, mtime);
+    } catch (error) {
+      throw pathError(error, 'utimesSync', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Verify files in directory against a manifest (as created by `manifest`), and report files with mismatched content
+   * hashes, files that are missing and extra files not in the manifest.
+   * @example
+   * // Check if release is complete and untampered
+   * const manifest = JSON.parse(await new Path('manifest.json').readFile('utf8'));
+   * const {extra, mismatched, missing} = await new Path('dist').verify(manifest, {algorithm: 'sha512'});
+   */
+  async verify(manifest: Record<string, string>, options: ManifestOptions = {}): Promise<VerifyResult> {
+    try {
+      const current = await this.manifest(options);
+
+      const result: VerifyResult = {extra: [], mismatched: [], missing: []};
+      for (const [name, digest] of Object.entries(current)) {
+        if (!Object.hasOwn(manifest, name)) {
+          result.extra.push(name);
+        } else if (manifest[name] !== digest) {
+          result.mismatched.push(name);
+        }
+      }
+      for (const name of Object.keys(manifest).sort()) {
+        if (!Object.hasOwn(current, name)) result.missing.push(name);
+      }
+
+      return result;
+    } catch (error) {
+      throw pathError(error, 'verify', this._path);
+    }
+  }
+
+  /**
+   * Watch directory for changes. Events are coalesced, so multiple changes to the same file within the `debounce`
+   * interval (defaults to 50 milliseconds) will result in a single event. Watching stops when the `signal` is aborted or
+   * the iterator is returned.
+   * @example
+   * // Watch directory recursively for changes to JavaScript files
+   * const dir = new Path('/home/kraih/project');
+   * for await (const event of dir.watch({recursive: true, glob: '**\/*.js'})) {
+   *   console.log(`${event.type}: ${event.path}`);
+   * }
+   */
+  async *watch(options: WatchOptions = {}): AsyncIterable<WatchEvent> {
+    try {
+      const signal = options.signal;
+      if (signal?.aborted === true) return;
+
+      const root = this._path;
+      const recursive = options.recursive === true;
+      const glob = options.glob === undefined ? undefined : new Glob(options.glob, [], {dot: true});
+      const known = new Map<string, boolean>();
+      const pending = new Set<string>();
+      const queue: WatchEvent[] = [];
+
+      const closed = new AbortController();
+      let failure: unknown;
+      let timer: NodeJS.Timeout | undefined;
+      let wake: (() => void) | undefined;
+      const notify = (): void => {
+        wake?.();
+        wake = undefined;
+      };
+
+      const watcher = this.backend.watch(root, {recursive});
+      const close = (): void => {
+        closed.abort();
+        watcher.close();
+        notify();
+      };
+      const fail = (error: Error): void => {
+        failure = pathError(error, 'watch', root);
+        close();
+      };
+      watcher.on('error', fail);
+      signal?.addEventListener('abort', close, {once: true});
+
+      let processing = watchScan(this.backend, root, '', recursive, known).catch(fail);
+      watcher.on('change', (_type, filename) => {
+        pending.add(filename === null ? '' : filename.toString());
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          const names = [...pending];
+          pending.clear();
+          processing = processing
+            .then(() => watchChanges(this.backend, root, names, recursive, known))
+            .then(changes => {
+              for (const [type, name] of changes) {
+                if (glob !== undefined && !glob.isIncluded(name.split(path.sep))) continue;
+                queue.push({type, path: this._derive(path.resolve(root, name))});
+              }
+              notify();
+            })
+            .catch(fail);
+        }, options.debounce ?? 50);
+      });
+
+      try {
+        while (true) {
+          const event = queue.shift();
+          if (event !== undefined) {
+            yield event;
+            continue;
+          }
+          if (failure !== undefined) throw failure;
+          if (closed.signal.aborted) return;
+          await new Promise<void>(resolve => (wake = resolve));
+        }
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', close);
+        close();
+      }
+    } catch (error) {
+      throw pathError(error, 'watch', this._path);
+    }
+  }
+
+  /**
+   * Create a new `Path` object with the last portion of the path replaced.
+   * @example
+   * // "/home/kraih/todo.txt"
+   * new Path('/home/kraih/notes.txt').withBasename('todo.txt');
+   */
+  withBasename(name: string): Path {
+    if (this.basename() === '') throw new TypeError(`Path has no basename: ${this._path}`);
+    if (name === '' || name === '.' || name === '..' || /[\\/]/.test(name)) {
+      throw new TypeError(`Invalid basename: ${name}`);
+    }
+    return this.sibling(name);
+  }
+
+  /**
+   * Create a new `Path` object with the extension replaced (or removed with an empty string), multi-part extensions like
+   * `.tar.gz` can be replaced with the `all` option.
+   * @example
+   * // "/home/kraih/index.js"
+   * new Path('/home/kraih/index.ts').withExtension('.js');
+   *
+   * // "/home/kraih/archive.zip"
+   * new Path('/home/kraih/archive.tar.gz').withExtension('.zip', {all: true});
+   */
+  withExtension(ext: string, options: SuffixOptions = {}): Path {
+    if (ext !== '' && (!ext.startsWith('.') || ext === '.' || /[\\/]/.test(ext))) {
+      throw new TypeError(`Invalid extension: ${ext}`);
+    }
+    return this.withBasename(this.stem(options) + ext);
+  }
+
+  /**
+   * Create a new `Path` object with the last portion of the path replaced, but the extension kept.
+   * @example
+   * // "/home/kraih/todo.txt"
+   * new Path('/home/kraih/notes.txt').withStem('todo');
+   */
+  withStem(stem: string): Path {
+    return this.withBasename(stem + this.extname());
+  }
+
+  /**
+   * Asynchronously write environment variables to a `.env` file, values are double quoted when necessary.
+   * @example
+   * // Write configuration atomically
+   * await new Path('.env').writeEnv({DATABASE_URL: 'postgres://localhost/test', DEBUG: '1'}, {atomic: true});
+   */
+  async writeEnv(vars: Record<string, string>, options: WriteOptions = {}): Promise<this> {
+    return await this.writeFile(stringifyEnv(vars), {atomic: options.atomic});
+  }
+
+  /**
+   * Synchronously write environment variables to a `.env` file.
+   */
+  writeEnvSync(vars: Record<string, string>, options: WriteOptions = {}): this {
+    return this.writeFileSync(stringifyEnv(vars), {atomic: options.atomic});
+  }
+
+  /**
+   * Asynchronously writes data to a file, replacing the file if it already exists. With the `atomic` option the data
+   * will be written to a temporary file first, which then gets renamed to replace the original, so readers can never
+   * see a partially written file. Since the file is always replaced as a whole, atomic writes do not support the `flag`
+   * option.
+   * @see https://nodejs.org/api/fs.html#fs_fspromises_writefile_file_data_options
+   * @example
+   * // Replace configuration file atomically
+   * const file = await new Path('/home/kraih/config.json').writeFile('{"hello":"world"}', {atomic: true});
+   */
+  async writeFile(
+    data: string | Uint8Array,
+    options?: fs.ObjectEncodingOptions & {atomic?: boolean; mode?: fs.Mode; flag?: fs.OpenMode} & EventEmitter.Abortable
+  ): Promise<this> {
+    try {
+      if (options?.atomic === true) {
+        await writeFileAtomic(this.backend, this._path, data, options);
+      } else {
+        await this.backend.writeFile(this._path, data, options);
+      }
+    } catch (error) {
+      throw pathError(error, 'writeFile', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Synchronously writes data to a file, replacing the file if it already exists. With the `atomic` option the data
+   * will be written to a temporary file first, which then gets renamed to replace the original. Atomic writes do not
+   * support the `flag` option.
+   * @see https://nodejs.org/api/fs.html#fs_fs_writefilesync_file_data_options
+   */
+  writeFileSync(data: string | Uint8Array, options?: fs.WriteFileOptions & {atomic?: boolean}): this {
+    try {
+      if (typeof options === 'object' && options?.atomic === true) {
+        writeFileAtomicSync(this.backend, this._path, data, options);
+      } else {
+        this.backend.writeFileSync(this._path, data, options);
+      }
+    } catch (error) {
+      throw pathError(error, 'writeFileSync', this._path);
+    }
+    return this;
+  }
+
+  /**
+   * Asynchronously serialize data as JSON and write it to a file, with `indent` spaces (defaults to 2) and a trailing
+   * newline. The `atomic` option works the same as for `writeFile`.
+   * @example
+   * // Update configuration file
+   * const config = new Path('config.json');
+   * await config.writeJSON({...(await config.readJSON()), debug: true}, {atomic: true});
+   */
+  async writeJSON(data: unknown, options: WriteJSONOptions = {}): Promise<this> {
+    return await this.writeFile(`${JSON.stringify(data, null, options.indent ?? 2)}\n`, {atomic: options.atomic});
+  }
+
+  /**
+   * Synchronously serialize data as JSON and write it to a file.
+   */
+  writeJSONSync(data: unknown, options: WriteJSONOptions = {}): this {
+    return this.writeFileSync(`${JSON.stringify(data, null, options.indent ?? 2)}\n`, {atomic: options.atomic});
+  }
+
+  _derive(...parts: string[]): Path {
+    const path = new Path(...parts);
+    path._backend = this._backend;
+    return path;
+  }
+}
+
+class Lock extends Path {
+  _id = crypto.randomBytes(8).toString('hex');
+  _timer: NodeJS.Timeout | undefined = undefined;
+
+  async [Symbol.asyncDispose]() {
+    await this.release();
+  }
+
+  [Symbol.dispose]() {
+    this.releaseSync();
+  }
+
+  /**
+   * Asynchronously release lock, does nothing if the lock has already been released or was taken over by someone else.
+   */
+  async release(): Promise<void> {
+    try {
+      clearInterval(this._timer);
+      tempRemoved(this._path);
+      if ((await lockOwner(this))?.id === this._id) await this.backend.rm(this._path, {recursive: true, force: true});
+    } catch (error) {
+      throw pathError(error, 'release', this._path);
+    }
+  }
+
+  /**
+   * Synchronously release lock, does nothing if the lock has already been released or was taken over by someone else.
+   */
+  releaseSync(): void {
+    try {
+      clearInterval(this._timer);
+      tempRemoved(this._path);
+      if (lockOwnerSync(this)?.id === this._id) this.backend.rmSync(this._path, {recursive: true, force: true});
+    } catch (error) {
+      throw pathError(error, 'releaseSync', this._path);
+    }
+  }
+}
+
+/**
+ * Directory entry for `list`, with the file type information from reading the directory and a lazily cached `stat`.
+ * Symbolic links that are followed report the type of their target.
+ */
+class PathEntry {
+  depth: number;
+  path: Path;
+  relative: Path;
+  _dirent: DirectoryEntry;
+  _stat: fs.Stats | fs.BigIntStats | undefined = undefined;
+  _target: fs.Stats | fs.BigIntStats | undefined = undefined;
+
+  constructor(path: Path, relative: Path, depth: number, dirent: DirectoryEntry) {
+    this.depth = depth;
+    this.path = path;
+    this.relative = relative;
+    this._dirent = dirent;
+  }
+
+  /**
+   * Check if entry is a directory.
+   */
+  isDirectory(): boolean {
+    return this._target === undefined ? this._dirent.isDirectory() : this._target.isDirectory();
+  }
+
+  /**
+   * Check if entry is a regular file.
+   */
+  isFile(): boolean {
+    return this._target === undefined ? this._dirent.isFile() : this._target.isFile();
+  }
+
+  /**
+   * Check if entry is a symbolic link.
+   */
+  isSymbolicLink(): boolean {
+    return this._dirent.isSymbolicLink();
+  }
+
+  /**
+   * Get file status information, only the first call accesses the file system. Symbolic links are only resolved if they
+   * have been followed.
+   */
+  async stat(): Promise<fs.Stats | fs.BigIntStats> {
+    if (this._stat === undefined) this._stat = this._target ?? (await this.path.lstat());
+    return this._stat;
+  }
+
+  /**
+   * Get file status information, only the first call accesses the file system. Symbolic links are only resolved if they
+   * have been followed.
+   */
+  statSync(): fs.Stats | fs.BigIntStats | undefined {
+    if (this._stat === undefined) this._stat = this._target ?? this.path.lstatSync();
+    return this._stat;
+  }
+
+  /**
+   * Get path as string.
+   */
+  toString(): string {
+    return this.path.toString();
+  }
+}
+
+class TempDir extends Path {
+  async [Symbol.asyncDispose]() {
+    await this.destroy();
+  }
+
+  [Symbol.dispose]() {
+    this.destroySync();
+  }
+
+  /**
+   * Asynchronously remove temporary directory.
+   */
+  async destroy(): Promise<void> {
+    try {
+      await this.backend.rm(this._path, {recursive: true});
+    } catch (error) {
+      throw pathError(error, 'destroy', this._path);
+    }
+    tempRemoved(this._path);
+  }
+
+  /**
+   * Synchronously remove temporary directory.
+   */
+  destroySync(): void {
+    try {
+      this.backend.rmSync(this._path, {recursive: true});
+    } catch (error) {
+      throw pathError(error, 'destroySync', this._path);
+    }
+    tempRemoved(this._path);
+  }
+}
+
+/**
+ * File entry with optional mode for `materialize` and `snapshot`.
+ */
+class TreeFile {
+  content: Buffer | JSONValue;
+  mode: number | undefined;
+
+  constructor(content: Buffer | JSONValue, mode?: number) {
+    this.content = content;
+    this.mode = mode;
+  }
+}
+
+/**
+ * Symbolic link entry for `materialize` and `snapshot`.
+ */
+class TreeSymlink {
+  target: string;
+
+  constructor(target: string) {
+    this.target = target;
+  }
+}
+
+class TempFile extends Path {
+  async [Symbol.asyncDispose]() {
+    await this.destroy();
+  }
+
+  [Symbol.dispose]() {
+    this.destroySync();
+  }
+
+  /**
+   * Asynchronously remove temporary file.
+   */
+  async destroy(): Promise<void> {
+    try {
+      await this.backend.rm(this._path, {force: true});
+    } catch (error) {
+      throw pathError(error, 'destroy', this._path);
+    }
+    tempRemoved(this._path);
+  }
+
+  /**
+   * Synchronously remove temporary file.
+   */
+  destroySync(): void {
+    try {
+      this.backend.rmSync(this._path, {force: true});
+    } catch (error) {
+      throw pathError(error, 'destroySync', this._path);
+    }
+    tempRemoved(this._path);
+  }
+}
+
+// Entries might have been replaced with symbolic links by later entries, those must never be followed
+async function unpackAttributes(target: Path, header: TarHeader, modeMask: number): Promise<void> {
+  if ((await target.lstat()).isSymbolicLink()) return;
+  await target.chmod(header.mode & modeMask);
+  await target.utimes(header.mtime, header.mtime);
+}
+
+async function unpackCheckParents(dir: Path, parts: string[]): Promise<void> {
+  let current = dir;
+  for (const part of parts.slice(0, -1)) {
+    current = current.child(part);
+    const stat = await current.lstat().catch(() => null);
+    if (stat === null) return;
+    if (stat.isSymbolicLink()) {
+      throw new UnsafePathError(`Refusing to unpack entry through symbolic link: ${current}`, dir._path, current._path);
+    }
+  }
+}
+
+function unpackParts(dir: Path, name: string, strip: number): string[] | null {
+  const parts = name.split('/').filter(part => part !== '' && part !== '.');
+  if (
+    name.startsWith('/') ||
+    /^[a-zA-Z]:/.test(name) ||
+    parts.includes('..') ||
+    parts.some(part => part.includes('\\'))
+  ) {
+    throw new UnsafePathError(`Refusing to unpack entry outside of target directory: ${name}`, dir._path, name);
+  }
+  return parts.length > strip ? parts.slice(strip) : null;
+}
+
+function* findUpDirs(start: Path, stopAt?: Path | string): Iterable<Path> {
+  const dir = start._derive(path.resolve(start._path));
+  for (const current of [dir, ...dir.parents()]) {
+    yield current;
+    if (stopAt !== undefined && current.equals(stopAt)) return;
+  }
+}
+
+function findUpIsType(stat: fs.Stats | fs.BigIntStats | null, type?: FindUpOptions['type']): boolean {
+  if (stat === null) return false;
+  if (type === 'file') return stat.isFile();
+  if (type === 'dir') return stat.isDirectory();
+  return true;
+}
+
+async function* findUpMatches(start: Path, matcher: FindUpMatcher, options: FindUpOptions): AsyncIterable<Path> {
+  for (const dir of findUpDirs(start, options.stopAt)) {
+    if (typeof matcher === 'function') {
+      if (await matcher(dir)) yield dir;
+      continue;
+    }
+
+    for (const name of typeof matcher === 'string' ? [matcher] : matcher) {
+      const file = dir.child(name);
+      if (findUpIsType(await file.stat().catch(() => null), options.type)) yield file;
+    }
+  }
+}
+
+function* findUpMatchesSync(start: Path, matcher: FindUpMatcherSync, options: FindUpOptions): Iterable<Path> {
+  for (const dir of findUpDirs(start, options.stopAt)) {
+    if (typeof matcher === 'function') {
+      if (matcher(dir)) yield dir;
+      continue;
+    }
+
+    for (const name of typeof matcher === 'string' ? [matcher] : matcher) {
+      const file = dir.child(name);
+      if (findUpIsType(findUpStatSync(file), options.type)) yield file;
+    }
+  }
+}
+
+function findUpStatSync(file: Path): fs.Stats | fs.BigIntStats | null {
+  try {
+    return file.statSync() ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function projectRootStart(): Path {
+  const fileName = new StackUtils().capture(3)[2].getFileName() ?? '';
+  return (fileName.startsWith('file://') ? Path.fromFileURL(fileName) : new Path(fileName)).dirname();
+}
+
+async function chmodApply(file: Path, mode: string | number, options: ChmodOptions): Promise<void> {
+  if (options.dirMode === undefined && options.fileMode === undefined && !isSymbolicMode(mode)) {
+    return await file.backend.chmod(file._path, mode);
+  }
+
+  const stat = await file.stat();
+  const isDir = stat.isDirectory();
+  const target = (isDir ? options.dirMode : options.fileMode) ?? mode;
+  await file.backend.chmod(file._path, isSymbolicMode(target) ? resolveMode(target, Number(stat.mode), isDir) : target);
+}
+
+function chmodApplySync(file: Path, mode: string | number, options: ChmodSyncOptions): void {
+  if (options.dirMode === undefined && options.fileMode === undefined && !isSymbolicMode(mode)) {
+    return file.backend.chmodSync(file._path, mode);
+  }
+
+  const stat = file.statSync() as fs.Stats | fs.BigIntStats;
+  const isDir = stat.isDirectory();
+  const target = (isDir ? options.dirMode : options.fileMode) ?? mode;
+  file.backend.chmodSync(file._path, isSymbolicMode(target) ? resolveMode(target, Number(stat.mode), isDir) : target);
+}
+
+async function recursiveTargets(dir: Path, filter?: ChownOptions['filter']): Promise<Path[]> {
+  const files: Path[] = [];
+  for await (const file of dir.list({dir: true, hidden: true, recursive: true})) {
+    if ((await file.lstat()).isSymbolicLink()) continue;
+    if (filter === undefined || (await filter(file))) files.push(file);
+  }
+  return files;
+}
+
+function recursiveTargetsSync(dir: Path, filter?: ChownSyncOptions['filter']): Path[] {
+  const files: Path[] = [];
+  for (const file of dir.listSync({dir: true, hidden: true, recursive: true})) {
+    if (file.lstatSync()?.isSymbolicLink() === true) continue;
+    if (filter === undefined || filter(file)) files.push(file);
+  }
+  return files;
+}
+
+async function* duEntries(
+  file: Path,
+  child: string | undefined,
+  depth: number,
+  options: DuOptions,
+  seen: Set<string>
+): AsyncIterable<[Path, fs.Stats | fs.BigIntStats, string | undefined]> {
+  const stat = options.followSymlinks === true ? await duStat(file) : await file.lstat();
+
+  // Hard links are counted only once, and directories only need to be tracked if symbolic links could create loops
+  if (stat.isDirectory() ? options.followSymlinks === true : Number(stat.nlink) > 1) {
+    const id = inodeId(stat);
+    if (seen.has(id)) return;
+    seen.add(id);
+  }
+
+  yield [file, stat, child];
+  if (!stat.isDirectory() || (options.maxDepth !== undefined && depth >= options.maxDepth)) return;
+
+  // Sorted, so it is deterministic which hard link gets counted
+  const names = (await file.backend.readdir(file._path)).map(entry => entry.name);
+  for (const name of names.sort()) {
+    if (options.hidden !== true && name.startsWith('.')) continue;
+    yield* duEntries(file.child(name), child ?? name, depth + 1, options, seen);
+  }
+}
+
+function compareSizes(a: FileSize, b: FileSize): number {
+  return b.bytes - a.bytes || (a.path._path < b.path._path ? -1 : a.path._path > b.path._path ? 1 : 0);
+}
+
+function duAdd(usage: DiskUsage, stat: fs.Stats | fs.BigIntStats, options: DuOptions): void {
+  usage.blocks += Number(stat.blocks);
+  usage.bytes += duBytes(stat, options);
+  if (stat.isDirectory()) {
+    usage.dirs++;
+  } else {
+    usage.files++;
+  }
+}
+
+function duBytes(stat: fs.Stats | fs.BigIntStats, options: DuOptions): number {
+  return options.apparent === true ? Number(stat.size) : Number(stat.blocks) * 512;
+}
+
+// Broken symbolic links are counted as they are
+async function duStat(file: Path): Promise<fs.Stats | fs.BigIntStats> {
+  try {
+    return await file.stat();
+  } catch (error) {
+    if ((error as NodeError).code !== 'ENOENT') throw error;
+    return await file.lstat();
+  }
+}
+
+function duStatSync(file: Path): fs.Stats | fs.BigIntStats | undefined {
+  try {
+    return file.statSync();
+  } catch (error) {
+    if ((error as NodeError).code !== 'ENOENT') throw error;
+    return file.lstatSync();
+  }
+}
+
+async function grepFile(file: Path, regex: RegExp, options: GrepOptions, signal: AbortSignal): Promise<GrepMatch[]> {
+  const context = options.contextLines ?? 0;
+  const limit = options.maxMatches ?? Infinity;
+  const matches: GrepMatch[] = [];
+  const before: string[] = [];
+  let waiting: GrepMatch[] = [];
+  let number = 0;
+
+  // Returns false once no more lines are needed
+  const searchLine = (text: string): boolean => {
+    if (text.endsWith('\r')) text = text.substring(0, text.length - 1);
+    number++;
+    for (const match of waiting) {
+      match.after.push(text);
+    }
+    waiting = waiting.filter(match => match.after.length < context);
+
+    if (matches.length < limit) {
+      for (const result of text.matchAll(regex)) {
+        const match: GrepMatch = {
+          after: [],
+          before: [...before],
+          column: (result.index ?? 0) + 1,
+          line: number,
+          match: result[0],
+          path: file,
+          text
+        };
+        matches.push(match);
+        if (context > 0) waiting.push(match);
+        if (matches.length >= limit) break;
+      }
+    }
+
+    before.push(text);
+    if (before.length > context) before.shift();
+    return matches.length < limit || waiting.length > 0;
+  };
+
+  const input = file.createReadStream();
+  const decoder = new StringDecoder('utf8');
+  let buffered = '';
+  let isFirst = true;
+  try {
+    for await (const chunk of input) {
+      if (signal.aborted) return matches;
+      if (isFirst && options.binary !== 'text' && chunk.subarray(0, BINARY_CHECK_SIZE).includes(0)) return [];
+      isFirst = false;
+
+      // Only split complete lines, so long lines spread over many chunks are not scanned repeatedly
+      const text = decoder.write(chunk);
+      const end = text.lastIndexOf('\n');
+      if (end === -1) {
+        buffered += text;
+        continue;
+      }
+      const lines = (buffered + text.substring(0, end)).split('\n');
+      buffered = text.substring(end + 1);
+      for (const line of lines) {
+        if (!searchLine(line)) return matches;
+      }
+    }
+
+    buffered += decoder.end();
+    if (buffered !== '') searchLine(buffered);
+  } finally {
+    input.destroy();
+  }
+
+  return matches;
+}
+
+function grepRegExp(pattern: RegExp | string): RegExp {
+  if (typeof pattern === 'string') return new RegExp(escapeRegExp(pattern), 'g');
+  return new RegExp(pattern.source, `${pattern.flags.replace(/[gy]/g, '')}g`);
+}
+
+async function followStat(file: Path): Promise<fs.Stats | fs.BigIntStats | null> {
+  try {
+    return await file.stat();
+  } catch (error) {
+    if ((error as NodeError).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Errors of the read stream are converted, since they would otherwise reach the caller unchanged
+function readLines(file: Path, operation: string, options?: stream.ReadableOptions): readline.Interface {
+  const input = file.createReadStream(options);
+  const output = new stream.PassThrough();
+  input.on('error', error => output.destroy(pathError(error, operation, file._path) as Error));
+  input.pipe(output);
+  return readline.createInterface({input: output, crlfDelay: Infinity});
+}
+
+async function readRange(file: Path, start: number, end: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  if (end <= start) return Buffer.alloc(0);
+  for await (const chunk of file.createReadStream({start, end: end - 1})) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function tailBuffer(file: Path, n: number, size: number): Promise<{buffer: Buffer; offset: number}> {
+  let buffer = Buffer.alloc(0);
+  let offset = size;
+  while (offset > 0) {
+    const start = Math.max(0, offset - TAIL_CHUNK_SIZE);
+    buffer = Buffer.concat([await readRange(file, start, offset), buffer]);
+    offset = start;
+
+    const lineStart = tailLineStart(buffer, n);
+    if (lineStart !== -1) return {buffer: buffer.subarray(lineStart), offset: offset + lineStart};
+  }
+  return {buffer, offset};
+}
+
+function tailLineStart(buffer: Buffer, n: number): number {
+  let index = buffer.length;
+  if (index > 0 && buffer[index - 1] === 0x0a) index--;
+  for (let i = 0; i < n; i++) {
+    index = index > 0 ? buffer.lastIndexOf(0x0a, index - 1) : -1;
+    if (index === -1) return -1;
+  }
+  return index + 1;
+}
+
+function isInside(base: string, target: string): boolean {
+  const relative = path.relative(path.resolve(base), path.resolve(target));
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+async function realpathExisting(dir: Path, file: string): Promise<string> {
+  try {
+    return await dir.backend.realpath(file);
+  } catch (error) {
+    const parent = path.dirname(file);
+    if ((error as NodeError).code !== 'ENOENT' || parent === file) throw error;
+    return path.join(await realpathExisting(dir, parent), path.basename(file));
+  }
+}
+
+function realpathExistingSync(dir: Path, file: string): string {
+  try {
+    return dir.backend.realpathSync(file);
+  } catch (error) {
+    const parent = path.dirname(file);
+    if ((error as NodeError).code !== 'ENOENT' || parent === file) throw error;
+    return path.join(realpathExistingSync(dir, parent), path.basename(file));
+  }
+}
+
+function treeContent(content: Buffer | JSONValue): Buffer | string {
+  if (content === null) return '';
+  if (typeof content === 'string' || Buffer.isBuffer(content)) return content;
+  return JSON.stringify(content);
+}
+
+function treeIsDir(entry: TreeEntry): entry is Tree {
+  if (typeof entry !== 'object' || entry === null) return false;
+  const proto = Object.getPrototypeOf(entry);
+  return proto === Object.prototype || proto === null;
+}
+
+function treeParts(name: string): string[] {
+  const parts = name.split('/').filter(part => part !== '' && part !== '.');
+  if (parts.length === 0 || parts.includes('..')) throw new Error(`Invalid tree entry name: ${name}`);
+  return parts;
+}
+
+function treeSnapshot(content: Buffer, name: string): Buffer | JSONValue {
+  const str = content.toString();
+  if (!Buffer.from(str).equals(content)) return content;
+  if (path.extname(name) !== '.json') return str;
+  try {
+    return JSON.parse(str);
+  } catch {
+    return str;
+  }
+}
+
+function sortPaths(paths: Path[]): Path[] {
+  return paths.sort((a, b) => (a._path < b._path ? -1 : a._path > b._path ? 1 : 0));
+}
+
+function tempDirPrefix(dir?: Path, name?: string) {
+  return path.join(dir === undefined ? os.tmpdir() : dir.toString(), name ?? 'node-');
+}
+
+function tempFilePath(options: TempFileOptions): string {
+  const random = crypto.randomBytes(8).toString('hex');
+  return tempDirPrefix(options.dir, `${options.prefix ?? 'node-'}${random}${options.suffix ?? ''}`);
+}
+
+function copyOptions(base: Path, options: CopyOptions): fs.CopyOptions {
+  const {filter, overwrite, ...rest} = options;
+  return {
+    ...rest,
+    force: overwrite ?? true,
+    filter:
+      filter === undefined
+        ? undefined
+        : (source, destination) => filter(base._derive(source), base._derive(destination))
+  };
+}
+
+async function diffEntries(dir: Path, options: ListOptions): Promise<Map<string, DiffEntry>> {
+  const entries = new Map<string, DiffEntry>();
+  if (!(await dir.exists())) return entries;
+
+  for await (const file of dir.list({...options, dir: true})) {
+    const stat = await file.lstat();
+    const type = stat.isDirectory() ? 'dir' : stat.isFile() ? 'file' : stat.isSymbolicLink() ? 'symlink' : 'other';
+    entries.set(dir.relative(file)._path, {path: file, stat, type});
+  }
+
+  return entries;
+}
+
+async function diffIsChanged(entry: DiffEntry, other: DiffEntry, compare: DiffOptions['compare']): Promise<boolean> {
+  // Timestamps of symbolic links are not preserved when copying
+  if (entry.type === 'symlink') {
+    return (
+      (await entry.path.backend.readlink(entry.path._path)) !== (await other.path.backend.readlink(other.path._path))
+    );
+  }
+
+  if (Number(entry.stat.size) !== Number(other.stat.size)) return true;
+  if (compare === 'size') return false;
+  if (compare === 'hash' && entry.type === 'file') return (await entry.path.hash()) !== (await other.path.hash());
+
+  // Copied timestamps only have millisecond precision
+  return Math.abs(Number(entry.stat.mtimeMs) - Number(other.stat.mtimeMs)) >= 1;
+}
+
+// Backends can only copy within themselves, so between different backends content is copied through memory
+async function syncCopy(source: Path, dest: Path): Promise<void> {
+  if (source.backend === dest.backend) return await source.backend.cp(source._path, dest._path, SYNC_OPTIONS);
+
+  const stat = await source.lstat();
+  await dest.backend.rm(dest._path, {force: true});
+  if (stat.isSymbolicLink()) return await dest.backend.symlink(await source.backend.readlink(source._path), dest._path);
+  await dest.backend.writeFile(dest._path, await source.backend.readFile(source._path));
+  await dest.backend.chmod(dest._path, Number(stat.mode) & 0o7777);
+  await dest.backend.utimes(dest._path, stat.atime, stat.mtime);
+}
+
+async function* packEntries(dir: Path, archive: Path, options: PackOptions): AsyncIterable<Buffer> {
+  const names: string[] = [];
+  for await (const file of dir.list({recursive: true, dir: true, hidden: true})) {
+    names.push(dir.relative(file)._path);
+  }
+
+  const skipped: string[] = [];
+  for (const name of names.sort()) {
+    const file = dir.child(name);
+    if (path.resolve(file._path) === path.resolve(archive._path)) continue;
+    if (skipped.some(prefix => name.startsWith(prefix + path.sep))) continue;
+    const relative = dir._derive(name);
+    if (options.filter !== undefined && !(await options.filter(relative))) {
+      skipped.push(name);
+      continue;
+    }
+
+    const stat = await file.lstat();
+    const portable = options.portable === true;
+    const header: TarHeader = {
+      gid: portable ? 0 : Number(stat.gid),
+      linkname: '',
+      mode: Number(stat.mode) & 0o7777,
+      mtime: Math.floor(Number(stat.mtimeMs) / 1000),
+      name: relative.toArray().join('/'),
+      size: 0,
+      type: '0',
+      uid: portable ? 0 : Number(stat.uid)
+    };
+
+    if (stat.isDirectory()) {
+      yield encodeHeader({...header, name: `${header.name}/`, type: '5'});
+    } else if (stat.isSymbolicLink()) {
+      yield encodeHeader({...header, linkname: await file.backend.readlink(file._path), type: '2'});
+    } else if (stat.isFile()) {
+      const size = Number(stat.size);
+      yield encodeHeader({...header, size});
+
+      // Files might change while they are being read
+      let written = 0;
+      if (size > 0) {
+        for await (const chunk of file.createReadStream({end: size - 1})) {
+          written += chunk.length;
+          yield chunk;
+        }
+      }
+      yield Buffer.alloc(size - written + paddingSize(size));
+    }
+  }
+
+  yield Buffer.alloc(1024);
+}
+
+function compareNames(a: DirectoryEntry, b: DirectoryEntry): number {
+  return a.name < b.name ? -1 : a.name > b.name ? 1 : 0;
+}
+
+function ignoreFilesIn(files: DirectoryEntry[], names: string[]): string[] {
+  return names.filter(name => files.some(file => file.name === name && !file.isDirectory()));
+}
+
+function inodeId(stat: fs.Stats | fs.BigIntStats): string {
+  return `${stat.dev}:${stat.ino}`;
+}
+
+function isDescendable(parts: string[], options: Pick<ListOptions, 'maxDepth' | 'recursive'>): boolean {
+  return options.recursive === true && (options.maxDepth === undefined || parts.length < options.maxDepth);
+}
+
+async function* walkDir(base: Path, walk: WalkDir, options: ListOptions, glob?: Glob): AsyncIterable<PathEntry> {
+  const queue = [walk];
+  for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+    for await (const step of walkEntries(base, next, options, glob)) {
+      if (options.signal?.aborted === true) return;
+      if (step.entry !== undefined) yield step.entry;
+      if (step.next === undefined) continue;
+      if (options.breadthFirst === true) {
+        queue.push(step.next);
+      } else {
+        yield* walkDir(base, step.next, options, glob);
+      }
+    }
+  }
+}
+
+// Every active directory has at most one pending read, so entries are only read as fast as they are consumed
+async function* walkDirParallel(
+  base: Path,
+  walk: WalkDir,
+  options: ListOptions,
+  glob?: Glob
+): AsyncIterable<PathEntry> {
+  const concurrency = options.concurrency ?? 1;
+  const queue = [walk];
+  const active = new Map<AsyncIterator<WalkStep>, Promise<WalkRead>>();
+  const read = (entries: AsyncIterator<WalkStep>): void => {
+    const next = entries.next().then((result): WalkRead => [entries, result]);
+    // Errors are handled once the next entry is needed
+    next.catch(() => undefined);
+    active.set(entries, next);
+  };
+
+  try {
+    while (queue.length > 0 || active.size > 0) {
+      while (active.size < concurrency && queue.length > 0) {
+        const next = (options.breadthFirst === true ? queue.shift() : queue.pop()) as WalkDir;
+        read(walkEntries(base, next, options, glob)[Symbol.asyncIterator]());
+      }
+
+      const [entries, result] = await Promise.race(active.values());
+      if (options.signal?.aborted === true) return;
+      if (result.done === true) {
+        active.delete(entries);
+        continue;
+      }
+      read(entries);
+
+      const step = result.value;
+      if (step.next !== undefined) queue.push(step.next);
+      if (step.entry !== undefined) yield step.entry;
+    }
+  } finally {
+    // Close directories that are still open
+    const pending = [...active.values()].map(async next => {
+      const [entries] = await next;
+      await entries.return?.();
+    });
+    await Promise.allSettled(pending);
+  }
+}
+
+function* walkDirSync(base: Path, walk: WalkDir, options: ListSyncOptions, glob?: Glob): Iterable<PathEntry> {
+  const queue = [walk];
+  for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+    for (const step of walkEntriesSync(base, next, options, glob)) {
+      if (step.entry !== undefined) yield step.entry;
+      if (step.next === undefined) continue;
+      if (options.breadthFirst === true) {
+        queue.push(step.next);
+      } else {
+        yield* walkDirSync(base, step.next, options, glob);
+      }
+    }
+  }
+}
+
+// Entries of a single directory, together with the subdirectories that need to be walked next
+async function* walkEntries(base: Path, walk: WalkDir, options: ListOptions, glob?: Glob): AsyncIterable<WalkStep> {
+  const {dir, parents} = walk;
+  let {ancestors, ignore} = walk;
+
+  // Symbolic links can create loops, so directories that are already being walked get skipped
+  if (options.followSymlinks === true && ancestors === undefined) ancestors = [inodeId(await base.backend.stat(dir))];
+
+  // Sorting and ignore files require the whole directory, everything else can be streamed
+  let files: AsyncIterable<DirectoryEntry> | DirectoryEntry[] = await base.backend.opendir(dir);
+  if (options.sort === true || options.ignoreFiles !== undefined) {
+    const all: DirectoryEntry[] = [];
+    for await (const file of files) {
+      all.push(file);
+    }
+    if (options.sort === true) all.sort(compareNames);
+    if (options.ignoreFiles !== undefined) {
+      for (const name of ignoreFilesIn(all, options.ignoreFiles)) {
+        const content = await base.backend.readFile(path.join(dir, name), 'utf8');
+        ignore = (ignore ?? new Ignore()).add(content.toString(), parents);
+      }
+    }
+    files = all;
+  }
+
+  for await (const file of files) {
+    if (options.hidden !== true && file.name.startsWith('.')) continue;
+
+    const full = path.resolve(dir, file.name);
+    const parts = [...parents, file.name];
+    const entry = new PathEntry(base._derive(full), base._derive(...parts), parts.length, file);
+    if (options.followSymlinks === true && file.isSymbolicLink()) entry._target = await duStat(entry.path);
+    const isDir = entry.isDirectory();
+    if (ignore !== undefined && ignore.isIgnored(parts, isDir)) continue;
+    if (options.filter !== undefined && !(await options.filter(entry))) continue;
+
+    if (isDir) {
+      const step: WalkStep = {};
+      if (options.dir === true && (glob === undefined || glob.isIncluded(parts))) step.entry = entry;
+      if (isDescendable(parts, options) && (glob === undefined || glob.mightContain(parts))) {
+        step.next = {dir: full, ignore, parents: parts};
+        if (ancestors !== undefined) {
+          const id = inodeId(await entry.stat());
+          step.next = ancestors.includes(id) ? undefined : {...step.next, ancestors: [...ancestors, id]};
+        }
+      }
+      if (step.entry !== undefined || step.next !== undefined) yield step;
+    } else if (glob === undefined || glob.isIncluded(parts)) {
+      yield {entry};
+    }
+  }
+}
+
+function* walkEntriesSync(base: Path, walk: WalkDir, options: ListSyncOptions, glob?: Glob): Iterable<WalkStep> {
+  const {dir, parents} = walk;
+  let {ancestors, ignore} = walk;
+
+  // Symbolic links can create loops, so directories that are already being walked get skipped
+  if (options.followSymlinks === true && ancestors === undefined) {
+    const stat = base.backend.statSync(dir);
+    if (stat !== undefined) ancestors = [inodeId(stat)];
+  }
+
+  // Sorting and ignore files require the whole directory, everything else can be streamed
+  let files = base.backend.opendirSync(dir);
+  if (options.sort === true || options.ignoreFiles !== undefined) {
+    const all = [...files];
+    if (options.sort === true) all.sort(compareNames);
+    if (options.ignoreFiles !== undefined) {
+      for (const name of ignoreFilesIn(all, options.ignoreFiles)) {
+        const content = base.backend.readFileSync(path.join(dir, name), 'utf8');
+        ignore = (ignore ?? new Ignore()).add(content.toString(), parents);
+      }
+    }
+    files = all;
+  }
+
+  for (const file of files) {
+    if (options.hidden !== true && file.name.startsWith('.')) continue;
+
+    const full = path.resolve(dir, file.name);
+    const parts = [...parents, file.name];
+    const entry = new PathEntry(base._derive(full), base._derive(...parts), parts.length, file);
+    if (options.followSymlinks === true && file.isSymbolicLink()) entry._target = duStatSync(entry.path);
+    const isDir = entry.isDirectory();
+    if (ignore !== undefined && ignore.isIgnored(parts, isDir)) continue;
+    if (options.filter !== undefined && !options.filter(entry)) continue;
+
+    if (isDir) {
+      const step: WalkStep = {};
+      if (options.dir === true && (glob === undefined || glob.isIncluded(parts))) step.entry = entry;
+      if (isDescendable(parts, options) && (glob === undefined || glob.mightContain(parts))) {
+        step.next = {dir: full, ignore, parents: parts};
+        const stat = ancestors === undefined ? undefined : entry.statSync();
+        if (ancestors !== undefined && stat !== undefined) {
+          const id = inodeId(stat);
+          step.next = ancestors.includes(id) ? undefined : {...step.next, ancestors: [...ancestors, id]};
+        }
+      }
+      if (step.entry !== undefined || step.next !== undefined) yield step;
+    } else if (glob === undefined || glob.isIncluded(parts)) {
+      yield {entry};
+    }
+  }
+}
+
+function atomicCheckFlag(flag: fs.OpenMode | undefined): void {
+  // The file is always replaced as a whole, so appending or exclusive creation can not be supported
+  if (flag !== undefined && flag !== 'w') throw new TypeError(`Flag "${flag}" is not supported for atomic writes`);
+}
+
+function atomicTempFile(file: string): string {
+  const random = crypto.randomBytes(6).toString('hex');
+  return path.join(path.dirname(file), `.${path.basename(file)}.${process.pid}.${random}.tmp`);
+}
+
+async function lockAcquire(lock: Lock, stale: number): Promise<boolean> {
+  const backend = lock.backend;
+  try {
+    await backend.mkdir(lock._path);
+  } catch (error) {
+    if ((error as NodeError).code !== 'EEXIST') throw error;
+    const state = await lockState(lock, lock._path);
+    if (state !== undefined && !lockIsStale(state, stale)) return false;
+
+    // Move stale lock out of the way first, and make sure it was not taken over by another process in the meantime
+    if (state !== undefined) {
+      const staleDir = `${lock._path}.${crypto.randomBytes(6).toString('hex')}.stale`;
+      try {
+        await backend.rename(lock._path, staleDir);
+        if (!lockStateEquals(state, await lockState(lock, staleDir))) {
+          await lockRestore(lock, staleDir);
+          return false;
+        }
+        await backend.rm(staleDir, {recursive: true, force: true});
+      } catch (error) {
+        if ((error as NodeError).code !== 'ENOENT') throw error;
+      }
+    }
+
+    try {
+      await backend.mkdir(lock._path);
+    } catch (error) {
+      if ((error as NodeError).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  await backend.writeFile(path.join(lock._path, 'owner.json'), lockOwnerData(lock));
+  return true;
+}
+
+function lockAcquireSync(lock: Lock, stale: number): boolean {
+  const backend = lock.backend;
+  try {
+    backend.mkdirSync(lock._path);
+  } catch (error) {
+    if ((error as NodeError).code !== 'EEXIST') throw error;
+    const state = lockStateSync(lock, lock._path);
+    if (state !== undefined && !lockIsStale(state, stale)) return false;
+
+    if (state !== undefined) {
+      const staleDir = `${lock._path}.${crypto.randomBytes(6).toString('hex')}.stale`;
+      try {
+        backend.renameSync(lock._path, staleDir);
+        if (!lockStateEquals(state, lockStateSync(lock, staleDir))) {
+          lockRestoreSync(lock, staleDir);
+          return false;
+        }
+        backend.rmSync(staleDir, {recursive: true, force: true});
+      } catch (error) {
+        if ((error as NodeError).code !== 'ENOENT') throw error;
+      }
+    }
+
+    try {
+      backend.mkdirSync(lock._path);
+    } catch (error) {
+      if ((error as NodeError).code === 'EEXIST') return false;
+      throw error;
+    }
+  }
+
+  backend.writeFileSync(path.join(lock._path, 'owner.json'), lockOwnerData(lock));
+  return true;
+}
+
+function lockHeld(lock: Lock, stale: number): Lock {
+  const refresh = async (): Promise<void> => {
+    // Refreshing a lock that has been taken over by someone else would keep their lock from ever becoming stale
+    if ((await lockOwner(lock))?.id !== lock._id) return clearInterval(lock._timer);
+    const now = new Date();
+    await lock.backend.utimes(lock._path, now, now);
+  };
+  lock._timer = setInterval(() => refresh().catch(() => undefined), Math.max(Math.floor(stale / 2), 1));
+  lock._timer.unref();
+  tempCleanup.push(lock);
+  return lock;
+}
+
+function lockIsStale(state: LockState, stale: number): boolean {
+  return Date.now() - state.mtimeMs > stale || lockOwnerIsDead(state.owner);
+}
+
+async function lockOwner(lock: Lock, dir = lock._path): Promise<LockOwner | undefined> {
+  try {
+    return JSON.parse((await lock.backend.readFile(path.join(dir, 'owner.json'), 'utf8')).toString());
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function lockOwnerSync(lock: Lock, dir = lock._path): LockOwner | undefined {
+  try {
+    return JSON.parse(lock.backend.readFileSync(path.join(dir, 'owner.json'), 'utf8').toString());
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function lockOwnerData(lock: Lock): string {
+  return JSON.stringify({hostname: os.hostname(), id: lock._id, pid: process.pid});
+}
+
+function lockOwnerIsDead(owner?: LockOwner): boolean {
+  if (owner === undefined || owner.hostname !== os.hostname()) return false;
+  try {
+    process.kill(owner.pid, 0);
+    return false;
+  } catch (error) {
+    return (error as NodeError).code === 'ESRCH';
+  }
+}
+
+// If another process has already created a new lock, the one that was moved by mistake is lost
+async function lockRestore(lock: Lock, staleDir: string): Promise<void> {
+  try {
+    await lock.backend.rename(staleDir, lock._path);
+  } catch (error) {
+    await lock.backend.rm(staleDir, {recursive: true, force: true});
+  }
+}
+
+function lockRestoreSync(lock: Lock, staleDir: string): void {
+  try {
+    lock.backend.renameSync(staleDir, lock._path);
+  } catch (error) {
+    lock.backend.rmSync(staleDir, {recursive: true, force: true});
+  }
+}
+
+async function lockState(lock: Lock, dir: string): Promise<LockState | undefined> {
+  let stat;
+  try {
+    stat = await lock.backend.stat(dir);
+  } catch (error) {
+    if ((error as NodeError).code === 'ENOENT') return undefined;
+    throw error;
+  }
+  return {mtimeMs: Number(stat.mtimeMs), owner: await lockOwner(lock, dir)};
+}
+
+function lockStateEquals(a: LockState, b: LockState | undefined): boolean {
+  return b !== undefined && a.mtimeMs === b.mtimeMs && a.owner?.id === b.owner?.id;
+}
+
+function lockStateSync(lock: Lock, dir: string): LockState | undefined {
+  let stat;
+  try {
+    stat = lock.backend.statSync(dir);
+  } catch (error) {
+    if ((error as NodeError).code === 'ENOENT') return undefined;
+    throw error;
+  }
+  return stat === undefined ? undefined : {mtimeMs: Number(stat.mtimeMs), owner: lockOwnerSync(lock, dir)};
+}
+
+function lockRetry(attempt: number, retries: number | undefined, deadline: number | undefined): boolean {
+  if (deadline !== undefined && Date.now() + LOCK_RETRY_DELAY > deadline) return false;
+  if (retries !== undefined && attempt >= retries) return false;
+  return deadline !== undefined || retries !== undefined;
+}
+
+let tempCleanup: Array<Lock | TempDir | TempFile> = [];
+function tempCreated<T extends TempDir | TempFile>(temp: T, parent?: Path): T {
+  temp._backend = parent?._backend;
+  tempCleanup.push(temp);
+  return temp;
+}
+
+function tempRemoved(path: string): void {
+  tempCleanup = tempCleanup.filter(temp => temp._path !== path);
+}
+
+async function writeFileAtomic(
+  backend: Backend,
+  file: string,
+  data: string | Uint8Array,
+  options: fs.ObjectEncodingOptions & {mode?: fs.Mode; flag?: fs.OpenMode} & EventEmitter.Abortable
+): Promise<void> {
+  atomicCheckFlag(options.flag);
+  const stat = await backend.stat(file).catch(error => {
+    if ((error as NodeError).code === 'ENOENT') return undefined;
+    throw error;
+  });
+
+  // Replace the file a symbolic link points to, not the link itself
+  if (stat !== undefined) file = await backend.realpath(file);
+  const temp = atomicTempFile(file);
+  try {
+    const mode = stat === undefined ? options.mode : Number(stat.mode);
+    await backend.writeFile(temp, data, {encoding: options.encoding, flag: 'wx', mode, signal: options.signal});
+    if (stat !== undefined) {
+      await backend.chmod(temp, Number(stat.mode));
+      await backend.chown(temp, Number(stat.uid), Number(stat.gid)).catch(error => {
+        if ((error as NodeError).code !== 'EPERM') throw error;
+      });
+    }
+    await backend.fsync(temp);
+    await backend.rename(temp, file);
+  } catch (error) {
+    // Cleanup is best-effort, the original error is more important
+    await backend.rm(temp, {force: true}).catch(() => undefined);
+    throw error;
+  }
+
+  if (process.platform !== 'win32') await backend.fsync(path.dirname(file));
+}
+
+function writeFileAtomicSync(
+  backend: Backend,
+  file: string,
+  data: string | Uint8Array,
+  options: fs.ObjectEncodingOptions & {mode?: fs.Mode; flag?: fs.OpenMode}
+): void {
+  atomicCheckFlag(options.flag);
+  let stat: fs.Stats | fs.BigIntStats | undefined;
+  try {
+    stat = backend.statSync(file);
+  } catch (error) {
+    if ((error as NodeError).code !== 'ENOENT') throw error;
+  }
+
+  if (stat !== undefined) file = backend.realpathSync(file);
+  const temp = atomicTempFile(file);
+  try {
+    const mode = stat === undefined ? options.mode : Number(stat.mode);
+    backend.writeFileSync(temp, data, {encoding: options.encoding, flag: 'wx', mode});
+    if (stat !== undefined) {
+      backend.chmodSync(temp, Number(stat.mode));
+      try {
+        backend.chownSync(temp, Number(stat.uid), Number(stat.gid));
+      } catch (error) {
+        if ((error as NodeError).code !== 'EPERM') throw error;
+      }
+    }
+    backend.fsyncSync(temp);
+    backend.renameSync(temp, file);
+  } catch (error) {
+    try {
+      backend.rmSync(temp, {force: true});
+    } catch {
+      // Cleanup is best-effort, the original error is more important
+    }
+    throw error;
+  }
+
+  if (process.platform !== 'win32') backend.fsyncSync(path.dirname(file));
+}
+
+async function watchChanges(
+  backend: Backend,
+  root: string,
+  names: string[],
+  recursive: boolean,
+  known: Map<string, boolean>
+): Promise<Array<[WatchEvent['type'], string]>> {
+  const changes: Array<[WatchEvent['type'], string]> = [];
+
+  for (const name of names.sort()) {
+    // Without a file name we have to compare the whole tree
+    if (name === '') {
+      changes.push(...(await watchReconcile(backend, root, '', recursive, known)));
+      continue;
+    }
+
+    const stat = await backend.lstat(path.join(root, name)).catch(error => {
+      if ((error as NodeError).code === 'ENOENT' || (error as NodeError).code === 'ENOTDIR') return undefined;
+      throw error;
+    });
+    const wasDir = known.get(name);
+
+    if (stat === undefined) {
+      if (wasDir !== undefined) changes.push(...watchRemove(name, known));
+    } else if (stat.isDirectory()) {
+      if (wasDir === false) changes.push(...watchRemove(name, known));
+      if (wasDir !== true) {
+        known.set(name, true);
+        changes.push(['addDir', name]);
+      }
+      if (recursive === true) changes.push(...(await watchReconcile(backend, root, name, recursive, known)));
+    } else if (wasDir !== false || !changes.some(([type, added]) => type === 'add' && added === name)) {
+      if (wasDir === true) changes.push(...watchRemove(name, known));
+      changes.push([wasDir === false ? 'change' : 'add', name]);
+      known.set(name, false);
+    }
+  }
+
+  return changes;
+}
+
+async function watchReconcile(
+  backend: Backend,
+  root: string,
+  dir: string,
+  recursive: boolean,
+  known: Map<string, boolean>
+): Promise<Array<[WatchEvent['type'], string]>> {
+  const current = new Map<string, boolean>();
+  await watchScan(backend, root, dir, recursive, current);
+
+  const changes: Array<[WatchEvent['type'], string]> = [];
+  const prefix = dir === '' ? '' : dir + path.sep;
+  for (const [name, isDir] of [...known]) {
+    if (!name.startsWith(prefix) || current.get(name) === isDir || known.has(name) === false) continue;
+    changes.push(...watchRemove(name, known));
+  }
+  for (const [name, isDir] of current) {
+    if (known.has(name)) continue;
+    known.set(name, isDir);
+    changes.push([isDir === true ? 'addDir' : 'add', name]);
+  }
+
+  return changes;
+}
+
+function watchRemove(name: string, known: Map<string, boolean>): Array<[WatchEvent['type'], string]> {
+  const changes: Array<[WatchEvent['type'], string]> = [];
+
+  const prefix = name + path.sep;
+  for (const [child, isDir] of [...known].reverse()) {
+    if (!child.startsWith(prefix)) continue;
+    known.delete(child);
+    changes.push([isDir === true ? 'unlinkDir' : 'unlink', child]);
+  }
+  changes.push([known.get(name) === true ? 'unlinkDir' : 'unlink', name]);
+  known.delete(name);
+
+  return changes;
+}
+
+async function watchScan(
+  backend: Backend,
+  root: string,
+  dir: string,
+  recursive: boolean,
+  entries: Map<string, boolean>
+): Promise<void> {
+  const files: DirectoryEntry[] = await backend.readdir(path.join(root, dir)).catch(error => {
+    if ((error as NodeError).code === 'ENOENT' || (error as NodeError).code === 'ENOTDIR') return [];
+    throw error;
+  });
+
+  for (const file of files) {
+    const name = dir === '' ? file.name : path.join(dir, file.name);
+    const isDir = file.isDirectory();
+    entries.set(name, isDir);
+    if (isDir === true && recursive === true) await watchScan(backend, root, name, recursive, entries);
+  }
 }
 
 process.on('exit', () => {
-  for (const path of tempDirCleanup) {
+  for (const temp of tempCleanup) {
+    // Locks might have been taken over by another process
+    if (temp instanceof Lock && lockOwnerSync(temp)?.id !== temp._id) continue;
     try {
-      fs.rmSync(path, {recursive: true});
+      temp.backend.rmSync(temp._path, {recursive: true});
     } catch (error) {
       if (!(error instanceof Error) || (error as NodeError).code !== 'ENOENT') console.warn(error);
     }
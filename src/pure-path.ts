@@ -0,0 +1,242 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+import path from 'node:path';
+
+/**
+ * Base class for pure paths, which only perform string operations and never access the file system.
+ */
+abstract class PurePath {
+  _path: string;
+
+  constructor(...parts: string[]) {
+    this._path = parts.length === 0 ? '.' : parts.length === 1 ? parts[0] : this._flavour().join(...parts);
+  }
+
+  /**
+   * Return the last portion of a path, similar to the Unix `basename` command.
+   */
+  basename(ext?: string): string {
+    return this._flavour().basename(this._path, ext);
+  }
+
+  /**
+   * Create a new path object relative to the current path.
+   */
+  child(...parts: string[]): this {
+    return this._derive(this._path, ...parts);
+  }
+
+  /**
+   * Return the directory name of a path, similar to the Unix `dirname` command.
+   */
+  dirname(): this {
+    return this._derive(this._flavour().dirname(this._path));
+  }
+
+  /**
+   * Return the extension of the path, from the last occurrence of the `.` (period) character to end of string in the
+   * last portion of the path.
+   */
+  extname(): string {
+    return this._flavour().extname(this._path);
+  }
+
+  /**
+   * Determine if path is an absolute path.
+   */
+  isAbsolute(): boolean {
+    return this._flavour().isAbsolute(this._path);
+  }
+
+  /**
+   * Normalize path, resolving `..` and `.` segments.
+   */
+  normalize(): this {
+    return this._derive(this._flavour().normalize(this._path));
+  }
+
+  /**
+   * Return the relative path from the current path to `to`, both paths should be absolute.
+   */
+  relative(to: PurePath | string): this {
+    return this._derive(this._flavour().relative(this._path, to.toString()));
+  }
+
+  /**
+   * Create a new path object relative to the parent directory of the current path.
+   */
+  sibling(...parts: string[]): this {
+    return this.dirname().child(...parts);
+  }
+
+  /**
+   * Split path into its segments.
+   */
+  abstract toArray(): string[];
+
+  /**
+   * Convert absolute path into a `file://` `URL` object.
+   */
+  abstract toFileURL(): URL;
+
+  /**
+   * Return an object whose properties represent significant elements of the path.
+   */
+  toObject(): path.ParsedPath {
+    return this._flavour().parse(this._path);
+  }
+
+  /**
+   * Convert path into a `PosixPath` object.
+   */
+  abstract toPosix(): PosixPath;
+
+  /**
+   * Convert path into a string.
+   */
+  toString(): string {
+    return `${this._path}`;
+  }
+
+  /**
+   * Convert path into a `WindowsPath` object.
+   */
+  abstract toWindows(): WindowsPath;
+
+  _derive(...parts: string[]): this {
+    return new (this.constructor as new (...parts: string[]) => this)(...parts);
+  }
+
+  abstract _flavour(): path.PlatformPath;
+}
+
+/**
+ * Pure POSIX path, using `path.posix` independent of the host operating system.
+ */
+export class PosixPath extends PurePath {
+  /**
+   * Create a `PosixPath` instance for the given path, defaults to the current directory (`.`).
+   * @example
+   * // Relative file
+   * const file = new PosixPath('work', 'notes.txt');
+   */
+  constructor(...parts: string[]) {
+    super(...parts);
+  }
+
+  toArray(): string[] {
+    return this._path.split('/');
+  }
+
+  toFileURL(): URL {
+    if (!this.isAbsolute()) throw new TypeError(`Relative path cannot be converted to file URL: ${this._path}`);
+
+    const url = new URL('file://');
+    url.pathname = encodePathname(path.posix.normalize(this._path)).replace(/\\/g, '%5C');
+    return url;
+  }
+
+  toPosix(): PosixPath {
+    return new PosixPath(this._path);
+  }
+
+  /**
+   * Convert path into a `WindowsPath` object, single letter top level directories become drive letters (`/c/foo` to
+   * `C:\foo`) and paths starting with two slashes become UNC paths (`//server/share` to `\\server\share`).
+   */
+  toWindows(): WindowsPath {
+    const unc = this._path.match(/^\/\/([^/]+)\/([^/]+)(?:\/(.*))?$/);
+    if (unc !== null) return new WindowsPath(`\\\\${unc[1]}\\${unc[2]}\\${toWindowsSeparators(unc[3] ?? '')}`);
+
+    const drive = this._path.match(/^\/([a-zA-Z])(?:\/(.*))?$/);
+    if (drive !== null) return new WindowsPath(`${drive[1].toUpperCase()}:\\${toWindowsSeparators(drive[2] ?? '')}`);
+
+    return new WindowsPath(toWindowsSeparators(this._path));
+  }
+
+  _flavour(): path.PlatformPath {
+    return path.posix;
+  }
+}
+
+/**
+ * Pure Windows path, using `path.win32` independent of the host operating system. Both `\` and `/` are accepted as
+ * separators.
+ */
+export class WindowsPath extends PurePath {
+  /**
+   * Create a `WindowsPath` instance for the given path, defaults to the current directory (`.`).
+   * @example
+   * // Absolute file
+   * const file = new WindowsPath('C:\\Users\\kraih', 'notes.txt');
+   *
+   * // File on network share
+   * const file = new WindowsPath('\\\\server\\share\\notes.txt');
+   */
+  constructor(...parts: string[]) {
+    super(...parts);
+  }
+
+  toArray(): string[] {
+    return this._path.split(/[\\/]/);
+  }
+
+  toFileURL(): URL {
+    if (!this.isAbsolute()) throw new TypeError(`Relative path cannot be converted to file URL: ${this._path}`);
+
+    const url = new URL('file://');
+    const normalized = path.win32.normalize(this._path);
+    if (normalized.startsWith('\\\\')) {
+      const [host, ...parts] = normalized.substring(2).split('\\');
+      url.hostname = host;
+      url.pathname = encodePathname(`/${parts.join('/')}`);
+    } else {
+      url.pathname = encodePathname(normalized.replace(/\\/g, '/'));
+    }
+    return url;
+  }
+
+  /**
+   * Convert path into a `PosixPath` object, drive letters become single letter top level directories (`C:\foo` to
+   * `/c/foo`) and UNC paths start with two slashes (`\\server\share` to `//server/share`).
+   */
+  toPosix(): PosixPath {
+    const {root} = path.win32.parse(this._path);
+    const rest = toPosixSeparators(this._path.substring(root.length));
+
+    const unc = root.match(/^[\\/]{2}([^\\/]+)[\\/]([^\\/]+)[\\/]?$/);
+    if (unc !== null) return new PosixPath(joinRoot(`//${unc[1]}/${unc[2]}`, rest));
+
+    const drive = root.match(/^([a-zA-Z]):[\\/]$/);
+    if (drive !== null) return new PosixPath(joinRoot(`/${drive[1].toLowerCase()}`, rest));
+
+    return new PosixPath(toPosixSeparators(this._path));
+  }
+
+  toWindows(): WindowsPath {
+    return new WindowsPath(this._path);
+  }
+
+  _flavour(): path.PlatformPath {
+    return path.win32;
+  }
+}
+
+function encodePathname(pathname: string): string {
+  return pathname.replace(/%/g, '%25').replace(/\n/g, '%0A').replace(/\r/g, '%0D').replace(/\t/g, '%09');
+}
+
+function joinRoot(root: string, rest: string): string {
+  return rest === '' ? root : `${root}/${rest}`;
+}
+
+function toPosixSeparators(path: string): string {
+  return path.replace(/\\/g, '/');
+}
+
+function toWindowsSeparators(path: string): string {
+  return path.replace(/\//g, '\\');
+}
@@ -0,0 +1,179 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+import type Path from './path.js';
+import type fs from 'node:fs';
+import stream from 'node:stream';
+import zlib from 'node:zlib';
+
+export interface RotatingStreamOptions {
+  compress?: boolean;
+  interval?: number;
+  maxFiles?: number;
+  maxSize?: number;
+  naming?: 'date' | 'number';
+}
+
+/**
+ * Writable stream that rotates files when they grow beyond `maxSize` bytes, or the current `interval` (in
+ * milliseconds) has passed. Data is only written in whole lines, so lines are never split across files, and incomplete
+ * lines are buffered until they are terminated or the stream ends.
+ */
+export class RotatingWriteStream extends stream.Writable {
+  _file: Path;
+  _options: RotatingStreamOptions;
+  _output: fs.WriteStream | undefined = undefined;
+  _pending: Buffer = Buffer.alloc(0);
+  _period = 0;
+  _size = 0;
+
+  constructor(file: Path, options: RotatingStreamOptions = {}) {
+    super();
+    this._file = file;
+    this._options = options;
+  }
+
+  _construct(callback: (error?: Error | null) => void): void {
+    this._open().then(() => callback(), callback);
+  }
+
+  _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+    this._output?.destroy();
+    callback(error);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    const pending = this._pending;
+    this._pending = Buffer.alloc(0);
+    this._writeLines(pending)
+      .then(() => closeStream(this._output))
+      .then(() => callback(), callback);
+  }
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    const data = Buffer.concat([this._pending, chunk]);
+    const end = data.lastIndexOf(0x0a) + 1;
+    this._pending = data.subarray(end);
+    this._writeLines(data.subarray(0, end)).then(() => callback(), callback);
+  }
+
+  async _compress(file: Path): Promise<void> {
+    const compressed = file.sibling(`${file.basename()}.gz`);
+    await stream.promises.pipeline(file.createReadStream(), zlib.createGzip(), compressed.createWriteStream());
+    await file.rm();
+  }
+
+  _isExpired(): boolean {
+    const interval = this._options.interval;
+    return interval !== undefined && Math.floor(Date.now() / interval) !== this._period;
+  }
+
+  async _open(): Promise<void> {
+    const interval = this._options.interval;
+    const stat = await this._file.stat().catch(() => null);
+    this._size = stat === null ? 0 : Number(stat.size);
+    const started = stat === null ? Date.now() : Number(stat.mtimeMs);
+    this._period = interval === undefined ? 0 : Math.floor(started / interval);
+    this._output = this._file.createWriteStream({flags: 'a'});
+    await new Promise((resolve, reject) => this._output?.once('open', resolve).once('error', reject));
+  }
+
+  async _prune(rotated: Array<[Path, string]>): Promise<void> {
+    const maxFiles = this._options.maxFiles;
+    if (maxFiles === undefined) return;
+    for (const [file] of rotated.slice(maxFiles)) {
+      await file.rm({force: true});
+    }
+  }
+
+  async _rotate(): Promise<void> {
+    await closeStream(this._output);
+    this._output = undefined;
+
+    const rotated = await this._rotated();
+    const naming = this._options.naming ?? 'number';
+    let target: Path;
+    if (naming === 'number') {
+      // Shift older files first, so "app.log.1" becomes "app.log.2" and so on
+      for (const [file, id] of [...rotated].reverse()) {
+        const suffix = file.extname() === '.gz' ? '.gz' : '';
+        await file.rename(this._file.sibling(`${this._file.basename()}.${parseInt(id) + 1}${suffix}`));
+      }
+      target = this._file.sibling(`${this._file.basename()}.1`);
+    } else {
+      const interval = this._options.interval;
+      const started = interval === undefined ? Date.now() : this._period * interval;
+      const stamp = new Date(started).toISOString().substring(0, 19).replace(/:/g, '-');
+      target = this._file.sibling(`${this._file.basename()}.${stamp}`);
+      for (let i = 1; (await target.exists()) || (await target.sibling(`${target.basename()}.gz`).exists()); i++) {
+        target = this._file.sibling(`${this._file.basename()}.${stamp}-${i}`);
+      }
+    }
+
+    await this._file.rename(target);
+    if (this._options.compress === true) await this._compress(target);
+    await this._prune(await this._rotated());
+    await this._open();
+  }
+
+  async _rotated(): Promise<Array<[Path, string]>> {
+    const base = this._file.basename();
+    const pattern =
+      (this._options.naming ?? 'number') === 'number' ? /^\.(\d+)(?:\.gz)?$/ : /^\.(\d{4}-[\d-]+T[\d-]+)(?:\.gz)?$/;
+
+    const rotated: Array<[Path, string]> = [];
+    for await (const file of this._file.dirname().list({hidden: true})) {
+      const name = file.basename();
+      if (!name.startsWith(base)) continue;
+      const match = name.substring(base.length).match(pattern);
+      if (match !== null) rotated.push([file, match[1]]);
+    }
+
+    // Newest files first
+    return rotated.sort(([, a], [, b]) => (/^\d+$/.test(a) ? parseInt(a) - parseInt(b) : b.localeCompare(a)));
+  }
+
+  async _writeLines(data: Buffer): Promise<void> {
+    const maxSize = this._options.maxSize;
+    while (data.length > 0) {
+      if (this._size > 0 && this._isExpired()) await this._rotate();
+
+      let length = data.length;
+      if (maxSize !== undefined && this._size + length > maxSize) {
+        const room = maxSize - this._size;
+        const cut = room > 0 ? data.lastIndexOf(0x0a, room - 1) + 1 : 0;
+        if (cut > 0) {
+          length = cut;
+        } else if (this._size > 0) {
+          await this._rotate();
+          continue;
+        } else {
+          // Lines longer than "maxSize" get a file of their own
+          const newline = data.indexOf(0x0a);
+          length = newline === -1 ? data.length : newline + 1;
+        }
+      }
+
+      await writeStream(this._output, data.subarray(0, length));
+      this._size += length;
+      data = data.subarray(length);
+    }
+  }
+}
+
+async function closeStream(output: fs.WriteStream | undefined): Promise<void> {
+  if (output === undefined || output.closed) return;
+  await new Promise<void>((resolve, reject) => {
+    output.once('error', reject).once('close', () => resolve());
+    output.end();
+  });
+}
+
+async function writeStream(output: fs.WriteStream | undefined, data: Buffer): Promise<void> {
+  if (output === undefined) throw new Error('Rotating stream is not open');
+  await new Promise<void>((resolve, reject) =>
+    output.write(data, error => (error == null ? resolve() : reject(error)))
+  );
+}
@@ -0,0 +1,301 @@
+/*!
+ * path.js
+ * Copyright (C) 2021-2023 Sebastian Riedel
+ * MIT Licensed
+ */
+import path from 'node:path';
+
+export const BLOCK_SIZE = 512;
+
+const MAX_OCTAL_SIZE = 0o77777777777;
+const MAX_OCTAL_ID = 0o7777777;
+const NO_BODY = ['1', '2', '3', '4', '5', '6'];
+
+/**
+ * Tar entry header, types are `0` (file), `1` (hard link), `2` (symbolic link) and `5` (directory).
+ */
+export interface TarHeader {
+  gid: number;
+  linkname: string;
+  mode: number;
+  mtime: number;
+  name: string;
+  size: number;
+  type: string;
+  uid: number;
+}
+
+export interface TarEntry {
+  body: AsyncIterable<Buffer>;
+  header: TarHeader;
+}
+
+/**
+ * Encode header as ustar block, preceded by a pax extended header if values do not fit into the ustar format.
+ */
+export function encodeHeader(header: TarHeader): Buffer {
+  const pax: Record<string, string> = {};
+
+  let name = header.name;
+  let prefix = '';
+  if (Buffer.byteLength(name) > 100) {
+    const split = splitName(name);
+    if (split === null) {
+      pax.path = name;
+    } else {
+      [prefix, name] = split;
+    }
+  }
+  if (Buffer.byteLength(header.linkname) > 100) pax.linkpath = header.linkname;
+  if (header.size > MAX_OCTAL_SIZE) pax.size = header.size.toString();
+  if (header.uid > MAX_OCTAL_ID) pax.uid = header.uid.toString();
+  if (header.gid > MAX_OCTAL_ID) pax.gid = header.gid.toString();
+
+  const block = ustarBlock(header, name, prefix);
+  if (Object.keys(pax).length === 0) return block;
+
+  const data = Buffer.from(
+    Object.entries(pax)
+      .map(([key, value]) => paxRecord(key, value))
+      .join('')
+  );
+  const paxName = `PaxHeader/${path.posix.basename(header.name)}`.substring(0, 100);
+  const paxHeader = {
+    gid: 0,
+    linkname: '',
+    mode: 0o644,
+    mtime: header.mtime,
+    name: paxName,
+    size: data.length,
+    type: 'x',
+    uid: 0
+  };
+  return Buffer.concat([ustarBlock(paxHeader, paxName, ''), data, Buffer.alloc(paddingSize(data.length)), block]);
+}
+
+/**
+ * Size of the zero padding after an entry body.
+ */
+export function paddingSize(size: number): number {
+  const rest = size % BLOCK_SIZE;
+  return rest === 0 ? 0 : BLOCK_SIZE - rest;
+}
+
+/**
+ * Read entries from tar archive, pax extended headers and GNU long names are applied to the headers automatically. The
+ * body of an entry needs to be consumed before the next entry is read, or it will be skipped.
+ */
+export async function* readTar(input: AsyncIterable<Buffer>): AsyncIterable<TarEntry> {
+  const reader = new ChunkReader(input);
+  let globalPax: Record<string, string> = {};
+  let pax: Record<string, string> = {};
+
+  while (true) {
+    const block = await reader.read(BLOCK_SIZE);
+    if (block.length === 0) return;
+    if (block.length < BLOCK_SIZE) throw new Error('Unexpected end of tar archive');
+
+    const header = decodeHeader(block);
+    if (header === null) return;
+
+    if (header.type === 'x' || header.type === 'g' || header.type === 'L' || header.type === 'K') {
+      const data = await reader.read(header.size);
+      if (data.length < header.size) throw new Error('Unexpected end of tar archive');
+      await reader.skip(paddingSize(header.size));
+
+      if (header.type === 'x') {
+        pax = {...pax, ...decodePax(data)};
+      } else if (header.type === 'g') {
+        globalPax = {...globalPax, ...decodePax(data)};
+      } else {
+        pax[header.type === 'L' ? 'path' : 'linkpath'] = readString(data, 0, data.length);
+      }
+      continue;
+    }
+
+    applyPax(header, {...globalPax, ...pax});
+    pax = {};
+
+    // Links, devices and directories have no body
+    const size = NO_BODY.includes(header.type) ? 0 : header.size;
+    reader._pending = size;
+    yield {header, body: reader.body()};
+    await reader.skip(reader._pending);
+    reader._pending = 0;
+    await reader.skip(paddingSize(size));
+  }
+}
+
+class ChunkReader {
+  _buffer: Buffer = Buffer.alloc(0);
+  _iterator: AsyncIterator<Buffer>;
+  _pending = 0;
+
+  constructor(input: AsyncIterable<Buffer>) {
+    this._iterator = input[Symbol.asyncIterator]();
+  }
+
+  async *body(): AsyncIterable<Buffer> {
+    while (this._pending > 0) {
+      if (!(await this._fill())) throw new Error('Unexpected end of tar archive');
+      const chunk = this._take(this._pending);
+      this._pending -= chunk.length;
+      yield chunk;
+    }
+  }
+
+  async read(size: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    while (length < size && (await this._fill())) {
+      const chunk = this._take(size - length);
+      chunks.push(chunk);
+      length += chunk.length;
+    }
+    return Buffer.concat(chunks, length);
+  }
+
+  async skip(size: number): Promise<void> {
+    while (size > 0 && (await this._fill())) {
+      size -= this._take(size).length;
+    }
+  }
+
+  async _fill(): Promise<boolean> {
+    while (this._buffer.length === 0) {
+      const {done, value} = await this._iterator.next();
+      if (done === true) return false;
+      this._buffer = Buffer.from(value);
+    }
+    return true;
+  }
+
+  _take(size: number): Buffer {
+    const chunk = this._buffer.subarray(0, size);
+    this._buffer = this._buffer.subarray(chunk.length);
+    return chunk;
+  }
+}
+
+function applyPax(header: TarHeader, pax: Record<string, string>): void {
+  if (pax.path !== undefined) header.name = pax.path;
+  if (pax.linkpath !== undefined) header.linkname = pax.linkpath;
+  if (pax.size !== undefined) header.size = parseInt(pax.size);
+  if (pax.uid !== undefined) header.uid = parseInt(pax.uid);
+  if (pax.gid !== undefined) header.gid = parseInt(pax.gid);
+  if (pax.mtime !== undefined) header.mtime = parseFloat(pax.mtime);
+}
+
+function decodeHeader(block: Buffer): TarHeader | null {
+  if (block.every(byte => byte === 0)) return null;
+
+  const checksum = readNumber(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 32 : block[i];
+  }
+  if (sum !== checksum) throw new Error('Invalid tar header checksum');
+
+  let name = readString(block, 0, 100);
+  if (readString(block, 257, 6) === 'ustar') {
+    const prefix = readString(block, 345, 155);
+    if (prefix !== '') name = `${prefix}/${name}`;
+  }
+
+  return {
+    gid: readNumber(block, 116, 8),
+    linkname: readString(block, 157, 100),
+    mode: readNumber(block, 100, 8),
+    mtime: readNumber(block, 136, 12),
+    name,
+    size: readNumber(block, 124, 12),
+    type: block[156] === 0 ? '0' : String.fromCharCode(block[156]),
+    uid: readNumber(block, 108, 8)
+  };
+}
+
+function decodePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(32, offset);
+    if (space === -1) break;
+    const length = parseInt(data.toString('ascii', offset, space));
+    if (isNaN(length) || length <= 0) break;
+
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    if (equals !== -1) records[record.substring(0, equals)] = record.substring(equals + 1);
+    offset += length;
+  }
+  return records;
+}
+
+function paxRecord(key: string, value: string): string {
+  const line = ` ${key}=${value}\n`;
+  const length = Buffer.byteLength(line);
+  let digits = length.toString().length;
+  if ((length + digits).toString().length > digits) digits++;
+  return `${length + digits}${line}`;
+}
+
+function readNumber(block: Buffer, offset: number, length: number): number {
+  // Base-256 encoding for large values
+  if ((block[offset] & 0x80) !== 0) {
+    let value = block[offset] & 0x7f;
+    for (let i = offset + 1; i < offset + length; i++) {
+      value = value * 256 + block[i];
+    }
+    return value;
+  }
+
+  const value = parseInt(block.toString('ascii', offset, offset + length).replace(/[\0 ]+/g, ''), 8);
+  return isNaN(value) ? 0 : value;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const end = block.indexOf(0, offset);
+  return block.toString('utf8', offset, end === -1 || end > offset + length ? offset + length : end);
+}
+
+function splitName(name: string): [string, string] | null {
+  for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+    const prefix = name.substring(0, i);
+    const rest = name.substring(i + 1);
+    if (Buffer.byteLength(prefix) > 155) return null;
+    if (rest !== '' && Buffer.byteLength(rest) <= 100) return [prefix, rest];
+  }
+  return null;
+}
+
+function ustarBlock(header: TarHeader, name: string, prefix: string): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  writeString(block, name, 0, 100);
+  writeOctal(block, header.mode & 0o7777, 100, 8);
+  writeOctal(block, header.uid > MAX_OCTAL_ID ? 0 : header.uid, 108, 8);
+  writeOctal(block, header.gid > MAX_OCTAL_ID ? 0 : header.gid, 116, 8);
+  writeOctal(block, header.size > MAX_OCTAL_SIZE ? 0 : header.size, 124, 12);
+  writeOctal(block, Math.floor(header.mtime), 136, 12);
+  block.write(header.type, 156, 1, 'ascii');
+  writeString(block, header.linkname, 157, 100);
+  block.write('ustar\0', 257, 6, 'ascii');
+  block.write('00', 263, 2, 'ascii');
+  writeString(block, prefix, 345, 155);
+
+  block.fill(32, 148, 156);
+  let sum = 0;
+  for (const byte of block) {
+    sum += byte;
+  }
+  block.write(`${sum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+
+  return block;
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'ascii');
+}
+
+function writeString(block: Buffer, value: string, offset: number, length: number): void {
+  Buffer.from(value).copy(block, offset, 0, length);
+}
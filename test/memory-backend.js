@@ -0,0 +1,264 @@
+import path from 'node:path';
+import Path, {MemoryBackend, NodeBackend} from '../lib/path.js';
+import t from 'tap';
+
+t.test('MemoryBackend', async t => {
+  await t.test('Per instance', async t => {
+    const memory = new MemoryBackend();
+    const dir = new Path('/virtual', 'app');
+    dir.backend = memory;
+    t.equal(dir.backend, memory);
+    t.ok(new Path().backend instanceof NodeBackend);
+
+    await dir.mkdir({recursive: true});
+    const file = await dir.child('test.txt').writeFile('Hello Mojo!');
+    t.equal(file.backend, memory);
+    t.equal(dir.child('foo').sibling('bar').dirname().backend, memory);
+    t.same(await file.exists(), true);
+    t.same(file.existsSync(), true);
+    t.equal(await file.readFile('utf8'), 'Hello Mojo!');
+    t.equal(file.readFileSync().toString(), 'Hello Mojo!');
+    t.same(await new Path('/virtual', 'app', 'test.txt').exists(), false);
+
+    t.equal(await (await file.appendFile(' Again!')).readFile('utf8'), 'Hello Mojo! Again!');
+    t.equal(file.appendFileSync('!').readFileSync('utf8'), 'Hello Mojo! Again!!');
+    t.equal(await (await file.truncate(5)).readFile('utf8'), 'Hello');
+    t.equal(file.truncateSync(4).readFileSync('utf8'), 'Hell');
+
+    const stat = await file.stat();
+    t.same(stat.isFile(), true);
+    t.same(stat.isDirectory(), false);
+    t.equal(stat.size, 4);
+    t.same((await dir.stat()).isDirectory(), true);
+    t.same(dir.statSync().isDirectory(), true);
+
+    const past = new Date('2020-01-01T00:00:00Z');
+    t.equal((await (await file.utimes(past, past)).stat()).mtimeMs, past.getTime());
+    t.not((await (await file.touch()).stat()).mtimeMs, past.getTime());
+    t.equal(await file.readFile('utf8'), 'Hell');
+    t.equal(await (await dir.child('new.txt').touch()).readFile('utf8'), '');
+    t.equal(dir.child('new2.txt').touchSync().readFileSync('utf8'), '');
+
+    t.same(await file.isWritable(), true);
+    t.same(await (await file.chmod(0o444)).isWritable(), false);
+    t.same(file.chmodSync(0o644).isWritableSync(), true);
+    t.equal((await file.stat()).mode & 0o777, 0o644);
+    const {uid, gid} = await (await file.chown(1234, 5678)).stat();
+    t.same([uid, gid], [1234, 5678]);
+
+    await file.rm();
+    t.same(await file.exists(), false);
+  });
+
+  await t.test('Error codes', async t => {
+    const dir = new Path('/virtual');
+    dir.backend = new MemoryBackend();
+    await dir.mkdir();
+
+    await t.rejects(dir.child('missing.txt').readFile(), {code: 'ENOENT', syscall: 'open'});
+    t.throws(() => dir.child('missing.txt').statSync(), {code: 'ENOENT', syscall: 'stat'});
+    await t.rejects(dir.child('missing', 'test.txt').writeFile('Fail'), {code: 'ENOENT'});
+    await t.rejects(dir.mkdir(), {code: 'EEXIST'});
+    await t.rejects(dir.readFile(), {code: 'EISDIR'});
+    await t.rejects(dir.rm(), {code: 'ERR_FS_EISDIR'});
+    t.throws(() => dir.child('missing.txt').rmSync(), {code: 'ENOENT'});
+    dir.child('missing.txt').rmSync({force: true});
+
+    const file = await dir.child('test.txt').writeFile('Hello');
+    await t.rejects(file.child('foo.txt').writeFile('Fail'), {code: 'ENOTDIR'});
+    await t.rejects(file.mkdir(), {code: 'EEXIST'});
+    await t.rejects(file.copyFile(dir.child('test.txt'), Path.constants.COPYFILE_EXCL), {code: 'EEXIST'});
+    await t.rejects(
+      dir
+        .child('sub')
+        .mkdir()
+        .then(sub => file.rename(sub)),
+      {code: 'EISDIR'}
+    );
+    await t.rejects(dir.child('sub').rename(file), {code: 'ENOTDIR'});
+    await t.rejects(dir.child('sub').rename(dir.child('sub', 'inner')), {code: 'EINVAL'});
+    await t.rejects(file.open('r'), {code: 'ENOSYS'});
+
+    const error = await dir
+      .child('missing.txt')
+      .readFile()
+      .catch(error => error);
+    t.equal(error.message, `readFile failed: ENOENT: no such file or directory, open '${dir.child('missing.txt')}'`);
+    t.equal(error.name, 'PathNotFoundError');
+    t.equal(error.operation, 'readFile');
+    t.equal(error.path, dir.child('missing.txt').toString());
+  });
+
+  await t.test('Global', async t => {
+    const original = Path.backend;
+    Path.backend = new MemoryBackend();
+    try {
+      const dir = await Path.tempDir();
+      t.equal(dir.backend, Path.backend);
+      await dir.child('test.txt').writeFile('Hello Mojo!');
+      t.equal(await dir.child('test.txt').readFile('utf8'), 'Hello Mojo!');
+      t.same(await new Path(dir.toString()).exists(), true);
+      await dir.destroy();
+      t.same(await dir.exists(), false);
+
+      const dir2 = Path.tempDirSync();
+      t.same(dir2.existsSync(), true);
+      dir2.destroySync();
+      t.same(dir2.existsSync(), false);
+    } finally {
+      Path.backend = original;
+    }
+    t.ok(Path.backend instanceof NodeBackend);
+  });
+
+  await t.test('Directories', async t => {
+    const root = new Path('/virtual');
+    root.backend = new MemoryBackend();
+    const dir = await Path.tempDir({dir: await root.mkdir()});
+    t.equal(dir.backend, root.backend);
+    t.equal(dir.dirname().toString(), root.toString());
+
+    await dir.child('foo', 'bar').mkdir({recursive: true});
+    await dir.child('foo', 'bar', 'one.txt').writeFile('One');
+    await dir.child('foo', 'two.txt').writeFile('Two');
+    await dir.child('foo', '.three.txt').writeFile('Three');
+
+    const files = [];
+    for await (const file of dir.list({recursive: true, dir: true})) {
+      t.equal(file.backend, root.backend);
+      files.push(dir.relative(file).toArray().join('/'));
+    }
+    t.same(files.sort(), ['foo', 'foo/bar', 'foo/bar/one.txt', 'foo/two.txt']);
+    t.same(
+      [...dir.listSync({recursive: true, dir: true, sort: true})].map(file => dir.relative(file).toArray().join('/')),
+      ['foo', 'foo/bar', 'foo/bar/one.txt', 'foo/two.txt']
+    );
+    const parallel = [];
+    for await (const file of dir.list({recursive: true, concurrency: 2, breadthFirst: true})) {
+      parallel.push(file.basename());
+    }
+    t.same(parallel.sort(), ['one.txt', 'two.txt']);
+
+    const globbed = [];
+    for await (const file of dir.glob('**/*.txt', {dot: true})) {
+      globbed.push(dir.relative(file).toArray().join('/'));
+    }
+    t.same(globbed.sort(), ['foo/.three.txt', 'foo/bar/one.txt', 'foo/two.txt']);
+    t.same(
+      [...dir.globSync('foo/*.txt')].map(file => file.basename()),
+      ['two.txt']
+    );
+
+    const copy = dir.child('copy');
+    await dir.child('foo').copy(copy, {recursive: true, filter: file => file.basename() !== 'bar'});
+    t.equal(await copy.child('two.txt').readFile('utf8'), 'Two');
+    t.same(await copy.child('bar').exists(), false);
+    const moved = await copy.move(dir.child('moved'));
+    t.same(await copy.exists(), false);
+    t.equal(moved.backend, root.backend);
+    t.equal(moved.child('two.txt').readFileSync('utf8'), 'Two');
+    t.equal(dir.child('foo').copySync(dir.child('copy2'), {recursive: true}).basename(), 'foo');
+    t.equal(dir.child('copy2', 'bar', 'one.txt').readFileSync('utf8'), 'One');
+
+    await dir.child('foo', 'bar', 'one.txt').symlink(dir.child('link.txt'));
+    t.same((await dir.child('link.txt').lstat()).isSymbolicLink(), true);
+    t.same((await dir.child('link.txt').stat()).isFile(), true);
+    t.equal(await dir.child('link.txt').readFile('utf8'), 'One');
+    t.equal((await dir.child('link.txt').realpath()).toString(), dir.child('foo', 'bar', 'one.txt').toString());
+    dir.child('foo').symlinkSync(dir.child('link'));
+    t.equal(dir.child('link', 'bar', 'one.txt').readFileSync('utf8'), 'One');
+    t.equal(dir.child('link').realpathSync().toString(), dir.child('foo').toString());
+
+    await dir.child('config.json').writeFile('{}', {atomic: true});
+    await dir.child('config.json').chmod(0o600);
+    dir.child('config.json').writeFileSync('{"foo":"bar"}', {atomic: true});
+    t.equal(await dir.child('config.json').readFile('utf8'), '{"foo":"bar"}');
+    t.equal((await dir.child('config.json').stat()).mode & 0o777, 0o600);
+
+    await dir.destroy();
+    t.same(await dir.exists(), false);
+    t.same(await root.exists(), true);
+  });
+
+  await t.test('syncTo between backends', async t => {
+    const source = await Path.tempDir();
+    await source.child('sub').mkdir();
+    const file = await source.child('sub', 'test.txt').writeFile('Hello Mojo!');
+    const past = new Date('2020-01-01T00:00:00Z');
+    await (await file.chmod(0o600)).utimes(past, past);
+    await new Path('sub', 'test.txt').symlink(source.child('link'));
+
+    const target = new Path(path.resolve('/virtual', 'sync'));
+    target.backend = new MemoryBackend();
+    const report = await source.syncTo(target, {recursive: true});
+    t.same(report.copied.map(file => file.toArray().join('/')).sort(), ['link', 'sub/test.txt']);
+    t.equal(await target.child('sub', 'test.txt').readFile('utf8'), 'Hello Mojo!');
+    const stat = await target.child('sub', 'test.txt').stat();
+    t.equal(stat.mode & 0o777, 0o600);
+    t.equal(stat.mtimeMs, past.getTime());
+    t.equal(await target.backend.readlink(target.child('link').toString()), 'sub/test.txt');
+    t.same((await source.diff(target, {recursive: true})).changed, []);
+
+    await file.writeFile('Hello again!');
+    const again = await source.syncTo(target, {recursive: true});
+    t.same(
+      again.copied.map(file => file.toArray().join('/')),
+      ['sub/test.txt']
+    );
+    t.equal(await target.child('sub', 'test.txt').readFile('utf8'), 'Hello again!');
+    t.same(await new Path(target.toString()).exists(), false);
+  });
+
+  await t.test('Streams', async t => {
+    const dir = new Path('/virtual');
+    dir.backend = new MemoryBackend();
+    await dir.mkdir();
+
+    const file = dir.child('test.txt');
+    const write = file.createWriteStream({encoding: 'utf8'});
+    await new Promise(resolve => write.write('foo\nbar\n', resolve));
+    await new Promise(resolve => write.end('I ♥ Mojolicious\n', resolve));
+    t.equal(await file.readFile('utf8'), 'foo\nbar\nI ♥ Mojolicious\n');
+
+    const lines = [];
+    for await (const line of file.lines({encoding: 'utf8'})) {
+      lines.push(line);
+    }
+    t.same(lines, ['foo', 'bar', 'I ♥ Mojolicious']);
+
+    const append = file.createWriteStream({flags: 'a'});
+    await new Promise(resolve => append.end('baz\n', resolve));
+    let str = '';
+    const read = file.createReadStream({encoding: 'utf8', start: 4});
+    read.on('data', chunk => (str += chunk));
+    await new Promise(resolve => read.once('end', resolve));
+    t.equal(str, 'bar\nI ♥ Mojolicious\nbaz\n');
+  });
+
+  await t.test('Watch', async t => {
+    const dir = new Path(path.resolve('/virtual'));
+    dir.backend = new MemoryBackend();
+    await dir.mkdir();
+
+    const controller = new AbortController();
+    const events = [];
+    const done = (async () => {
+      for await (const event of dir.watch({recursive: true, debounce: 10, signal: controller.signal})) {
+        events.push([event.type, dir.relative(event.path).toArray().join('/')]);
+        if (events.length === 3) controller.abort();
+      }
+    })();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    await dir.child('sub').mkdir();
+    await dir.child('sub', 'test.txt').writeFile('Hello');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await dir.child('sub', 'test.txt').rm();
+    await done;
+    t.same(events, [
+      ['addDir', 'sub'],
+      ['add', 'sub/test.txt'],
+      ['unlink', 'sub/test.txt']
+    ]);
+  });
+});
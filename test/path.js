@@ -1,8 +1,25 @@
+import {spawnSync} from 'node:child_process';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
 import fsPromises from 'node:fs/promises';
+import os from 'node:os';
 import path from 'node:path';
 import url from 'node:url';
 import {callerTest, callerTestTwo, callerTestThree} from './support/caller.js';
-import Path from '../lib/path.js';
+import {pathError} from '../lib/errors.js';
+import {resolveMode} from '../lib/mode.js';
+import Path, {
+  IsADirectoryError,
+  NodeBackend,
+  NotADirectoryError,
+  ParseError,
+  PathError,
+  PathExistsError,
+  PathNotFoundError,
+  PermissionDeniedError,
+  UnsafePathError
+} from '../lib/path.js';
+import {encodeHeader} from '../lib/tar.js';
 import t from 'tap';
 
 t.test('Path', async t => {
@@ -35,6 +52,90 @@ t.test('Path', async t => {
     t.end();
   });
 
+  t.test('stem and suffixes', t => {
+    t.equal(new Path('foo', 'archive.tar.gz').stem(), 'archive.tar');
+    t.equal(new Path('foo', 'archive.tar.gz').stem({all: true}), 'archive');
+    t.equal(new Path('foo', 'file').stem(), 'file');
+    t.equal(new Path('foo', '.bashrc').stem(), '.bashrc');
+    t.equal(new Path('foo', '.config.json').stem({all: true}), '.config');
+    t.same(new Path('foo', 'archive.tar.gz').suffixes(), ['.tar', '.gz']);
+    t.same(new Path('foo', 'file.txt').suffixes(), ['.txt']);
+    t.same(new Path('foo', 'file').suffixes(), []);
+    t.same(new Path('foo', '.bashrc').suffixes(), []);
+    t.end();
+  });
+
+  t.test('withBasename, withExtension and withStem', t => {
+    const file = new Path('foo', 'bar', 'index.ts');
+    t.ok(file.withExtension('.js') instanceof Path);
+    t.equal(file.withExtension('.js').toString(), path.join('foo', 'bar', 'index.js'));
+    t.equal(file.withExtension('').toString(), path.join('foo', 'bar', 'index'));
+    t.equal(new Path('foo', 'file').withExtension('.txt').toString(), path.join('foo', 'file.txt'));
+    t.equal(new Path('archive.tar.gz').withExtension('.zip').toString(), 'archive.tar.zip');
+    t.equal(new Path('archive.tar.gz').withExtension('.zip', {all: true}).toString(), 'archive.zip');
+    t.equal(new Path('archive.tar.gz').withExtension('.tar.xz', {all: true}).toString(), 'archive.tar.xz');
+    t.equal(file.withBasename('test.txt').toString(), path.join('foo', 'bar', 'test.txt'));
+    t.equal(file.withStem('main').toString(), path.join('foo', 'bar', 'main.ts'));
+    t.equal(new Path('archive.tar.gz').withStem('backup').toString(), 'backup.gz');
+    t.equal(file.toString(), path.join('foo', 'bar', 'index.ts'));
+
+    t.throws(() => file.withExtension('js'), {name: 'TypeError', message: 'Invalid extension: js'});
+    t.throws(() => file.withExtension('.'), {name: 'TypeError'});
+    t.throws(() => file.withExtension('./js'), {name: 'TypeError'});
+    t.throws(() => file.withBasename(''), {name: 'TypeError', message: 'Invalid basename: '});
+    t.throws(() => file.withBasename('..'), {name: 'TypeError'});
+    t.throws(() => file.withBasename('foo/bar.txt'), {name: 'TypeError'});
+    t.throws(() => new Path('/').withStem('foo'), {name: 'TypeError', message: /Path has no basename/});
+    t.end();
+  });
+
+  t.test('parents', t => {
+    const parents = [...new Path('/foo/bar/baz.txt').parents()].map(dir => dir.toString());
+    t.same(parents, [path.dirname(path.resolve('/foo/bar/baz.txt')), path.resolve('/foo'), path.resolve('/')]);
+    t.same([...new Path('/').parents()], []);
+    t.same(
+      [...new Path('foo', 'bar').parents()].map(dir => dir.toString()),
+      ['foo', '.']
+    );
+    t.end();
+  });
+
+  t.test('equals, isAncestorOf and commonAncestor', t => {
+    t.same(new Path('foo', 'bar').equals(new Path('foo', 'baz', '..', 'bar')), true);
+    t.same(new Path('foo', 'bar').equals(path.resolve('foo', 'bar')), true);
+    t.same(new Path('foo', 'bar').equals('foo'), false);
+
+    t.same(new Path('/foo').isAncestorOf('/foo/bar/baz.txt'), true);
+    t.same(new Path('/foo').isAncestorOf(new Path('/foo/bar')), true);
+    t.same(new Path('/foo').isAncestorOf('/foo'), false);
+    t.same(new Path('/foo').isAncestorOf('/foobar'), false);
+    t.same(new Path('/foo/bar').isAncestorOf('/foo'), false);
+    t.same(new Path('/').isAncestorOf('/foo'), true);
+
+    const common = new Path('/home/kraih/notes.txt').commonAncestor('/home/kraih/work/todo.txt');
+    t.ok(common instanceof Path);
+    t.equal(common.toString(), path.resolve('/home/kraih'));
+    t.equal(new Path('/home/kraih').commonAncestor().toString(), path.resolve('/home/kraih'));
+    t.equal(
+      new Path('/home/kraih').commonAncestor(new Path('/home/sri'), '/home/kraih/work').toString(),
+      path.resolve('/home')
+    );
+    t.equal(new Path('/home').commonAncestor('/etc').toString(), path.resolve('/'));
+    t.equal(new Path('foo', 'bar').commonAncestor('foo/baz').toString(), path.resolve('foo'));
+    t.end();
+  });
+
+  t.test('expandHome', t => {
+    t.equal(new Path('~').expandHome().toString(), os.homedir());
+    t.equal(
+      new Path('~', '.config', 'app.json').expandHome().toString(),
+      path.join(os.homedir(), '.config', 'app.json')
+    );
+    t.equal(new Path('~foo').expandHome().toString(), '~foo');
+    t.equal(new Path('/tmp/~').expandHome().toString(), path.join('/tmp', '~'));
+    t.end();
+  });
+
   t.test('normalize', t => {
     t.equal(
       new Path('foo', 'bar', '..', 'file.t').normalize().toString(),
@@ -49,6 +150,59 @@ t.test('Path', async t => {
     t.end();
   });
 
+  t.test('safeChild', t => {
+    const uploads = new Path('/srv', 'uploads');
+    t.equal(uploads.safeChild('foo', 'bar.txt').toString(), uploads.child('foo', 'bar.txt').toString());
+    t.equal(uploads.safeChild('foo/../bar.txt').toString(), uploads.child('bar.txt').toString());
+    t.equal(uploads.safeChild('.').toString(), uploads.toString());
+    t.equal(new Path('uploads').safeChild('foo..txt').toString(), path.join('uploads', 'foo..txt'));
+
+    t.throws(() => uploads.safeChild('..', 'passwd'), {
+      name: 'UnsafePathError',
+      code: 'ERR_UNSAFE_PATH',
+      base: uploads.toString(),
+      path: new Path('/srv', 'passwd').toString()
+    });
+    t.throws(() => uploads.safeChild('foo/../../uploads2/bar.txt'), UnsafePathError);
+    t.throws(() => new Path('uploads').safeChild('../../etc/passwd'), UnsafePathError);
+    t.throws(() => uploads.safeChild('..'), UnsafePathError);
+    t.throws(() => uploads.safeChild('/etc/passwd'), {message: 'Path segment is absolute: /etc/passwd'});
+    t.throws(() => uploads.safeChild('foo', 'C:\\Windows'), {message: /Path segment is absolute/});
+    t.throws(() => uploads.safeChild('c:foo.txt'), {message: /Path segment is absolute/});
+    t.throws(() => uploads.safeChild('\\\\server\\share'), {message: /Path segment is absolute/});
+    t.throws(() => uploads.safeChild('//server/share'), {message: /Path segment is absolute/});
+    t.throws(() => uploads.safeChild('foo\0.txt'), {message: 'Path segment contains NUL byte: "foo\\u0000.txt"'});
+    t.end();
+  });
+
+  await t.test('contains', async t => {
+    const dir = await Path.tempDir();
+    const uploads = await dir.child('uploads').mkdir();
+    await dir.child('secret.txt').writeFile('Secret');
+    await dir.child('secret.txt').symlink(uploads.child('link.txt'));
+    await dir.symlink(uploads.child('parent'));
+
+    t.same(await uploads.contains(uploads), true);
+    t.same(await uploads.contains(uploads.child('foo', 'bar.txt')), true);
+    t.same(await uploads.contains(uploads.child('foo', '..', '..', 'bar.txt').toString()), false);
+    t.same(await uploads.contains(dir), false);
+    t.same(await uploads.contains(dir.child('uploads2')), false);
+    t.same(await uploads.contains(uploads.child('foo\0.txt')), false);
+    t.same(uploads.containsSync(uploads.child('foo.txt')), true);
+    t.same(uploads.containsSync(dir.child('foo.txt')), false);
+
+    t.same(await uploads.contains(uploads.child('link.txt')), true);
+    t.same(await uploads.contains(uploads.child('link.txt'), {followSymlinks: true}), false);
+    t.same(await uploads.contains(uploads.child('parent', 'new.txt'), {followSymlinks: true}), false);
+    t.same(await uploads.contains(uploads.child('missing', 'new.txt'), {followSymlinks: true}), true);
+    t.same(uploads.containsSync(uploads.child('link.txt'), {followSymlinks: true}), false);
+    t.same(uploads.containsSync(uploads.child('parent', 'new.txt'), {followSymlinks: true}), false);
+    t.same(uploads.containsSync(uploads.child('missing', 'new.txt'), {followSymlinks: true}), true);
+    t.same(await uploads.child('parent').contains(uploads, {followSymlinks: true}), true);
+
+    await dir.destroy();
+  });
+
   await t.test('realpath', async t => {
     const realPath = await fsPromises.realpath('.');
     t.equal((await new Path('.').realpath()).toString(), realPath);
@@ -141,6 +295,429 @@ t.test('Path', async t => {
     t.same(lines, ['foo', 'bar', 'I ♥ Mojolicious']);
   });
 
+  await t.test('head and tail', async t => {
+    const dir = await Path.tempDir();
+    const file = await dir.child('test.txt').writeFile('one\ntwo\r\nthree\nfour\nfive\n');
+    t.same(await file.head(2), ['one', 'two']);
+    t.same(await file.head(), ['one', 'two', 'three', 'four', 'five']);
+    t.same(await file.head(0), []);
+    t.same(await file.tail(2), ['four', 'five']);
+    t.same(await file.tail(4), ['two', 'three', 'four', 'five']);
+    t.same(await file.tail(), ['one', 'two', 'three', 'four', 'five']);
+    t.same(await file.tail(0), []);
+
+    const unterminated = await dir.child('unterminated.txt').writeFile('one\n\ntwo\nthree');
+    t.same(await unterminated.tail(1), ['three']);
+    t.same(await unterminated.tail(3), ['', 'two', 'three']);
+    t.same(await unterminated.head(2, {encoding: 'utf8'}), ['one', '']);
+
+    const empty = await dir.child('empty.txt').writeFile('');
+    t.same(await empty.head(), []);
+    t.same(await empty.tail(), []);
+
+    const lines = [];
+    for (let i = 1; i <= 20000; i++) {
+      lines.push(`Line ${i} ♥`);
+    }
+    const large = await dir.child('large.txt').writeFile(lines.join('\n') + '\n');
+    t.same(await large.tail(3), ['Line 19998 ♥', 'Line 19999 ♥', 'Line 20000 ♥']);
+    t.same(await large.tail(15000), lines.slice(5000));
+    t.same(await large.head(3), ['Line 1 ♥', 'Line 2 ♥', 'Line 3 ♥']);
+
+    await dir.destroy();
+  });
+
+  await t.test('follow', async t => {
+    const dir = await Path.tempDir();
+    const file = await dir.child('test.log').writeFile('one\ntwo\n');
+
+    const follow = (file, options) => {
+      const controller = new AbortController();
+      const lines = [];
+      const done = (async () => {
+        for await (const line of file.follow({pollInterval: 10, signal: controller.signal, ...options})) {
+          lines.push(line);
+        }
+      })();
+      const waitFor = async count => {
+        while (lines.length < count) await new Promise(resolve => setTimeout(resolve, 10));
+      };
+      return {abort: () => controller.abort(), done, lines, waitFor};
+    };
+
+    const all = follow(file);
+    await all.waitFor(2);
+    t.same(all.lines, ['one', 'two']);
+    await file.appendFile('three\r\nfo');
+    await all.waitFor(3);
+    await file.appendFile('ur ♥\n');
+    await all.waitFor(4);
+    t.same(all.lines, ['one', 'two', 'three', 'four ♥']);
+
+    await file.writeFile('five\n');
+    await all.waitFor(5);
+    t.same(all.lines.slice(4), ['five']);
+
+    await file.appendFile('six');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await file.rename(dir.child('test.log.1'));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await file.writeFile('seven\n');
+    await all.waitFor(7);
+    t.same(all.lines.slice(5), ['six', 'seven']);
+    all.abort();
+    await all.done;
+
+    const fromEnd = follow(file, {fromEnd: true});
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await file.appendFile('eight\n');
+    await fromEnd.waitFor(1);
+    t.same(fromEnd.lines, ['eight']);
+    fromEnd.abort();
+    await fromEnd.done;
+
+    const last = follow(file, {lines: 1});
+    await last.waitFor(1);
+    await file.appendFile('nine\n');
+    await last.waitFor(2);
+    t.same(last.lines, ['eight', 'nine']);
+    last.abort();
+    await last.done;
+
+    const missing = follow(dir.child('missing.log'));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await dir.child('missing.log').writeFile('ten\n');
+    await missing.waitFor(1);
+    t.same(missing.lines, ['ten']);
+    missing.abort();
+    await missing.done;
+
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = [];
+    for await (const line of file.follow({signal: controller.signal})) {
+      aborted.push(line);
+    }
+    t.same(aborted, []);
+
+    for await (const line of file.follow({pollInterval: 10})) {
+      t.equal(line, 'seven');
+      break;
+    }
+
+    await dir.destroy();
+  });
+
+  await t.test('I/O (atomic)', async t => {
+    const dir = await Path.tempDir();
+
+    const file = await dir.child('test.txt').writeFile('Hello World!', {atomic: true});
+    t.equal(await file.readFile('utf8'), 'Hello World!');
+    await file.chmod(0o640);
+    await file.writeFile('I ♥ Mojolicious', {atomic: true, encoding: 'utf8'});
+    t.equal(await file.readFile('utf8'), 'I ♥ Mojolicious');
+    if (process.platform !== 'win32') t.equal((await file.stat()).mode & 0o777, 0o640);
+
+    const controller = new AbortController();
+    controller.abort();
+    await t.rejects(file.writeFile('Fail', {atomic: true, signal: controller.signal}), {name: 'AbortError'});
+    t.equal(await file.readFile('utf8'), 'I ♥ Mojolicious');
+
+    const file2 = dir.child('test2.txt').writeFileSync('Hello Mojo!', {atomic: true});
+    t.equal(file2.readFileSync('utf8'), 'Hello Mojo!');
+    file2.chmodSync(0o600);
+    t.equal(file2.writeFileSync('Hello again!', {atomic: true}).readFileSync('utf8'), 'Hello again!');
+    if (process.platform !== 'win32') t.equal(file2.statSync().mode & 0o777, 0o600);
+
+    const files = [];
+    for await (const file of dir.list({hidden: true})) {
+      files.push(file.basename());
+    }
+    t.same(files.sort(), ['test.txt', 'test2.txt']);
+
+    const real = await dir.child('real').mkdir();
+    const target = await real.child('target.txt').writeFile('Target');
+    const link = dir.child('link.txt');
+    await target.symlink(link);
+    await link.writeFile('Atomic', {atomic: true});
+    t.same((await link.lstat()).isSymbolicLink(), true);
+    t.equal(await target.readFile('utf8'), 'Atomic');
+    link.writeFileSync('Atomic again', {atomic: true});
+    t.same(link.lstatSync().isSymbolicLink(), true);
+    t.equal(await target.readFile('utf8'), 'Atomic again');
+    const realFiles = [];
+    for await (const file of real.list({hidden: true})) {
+      realFiles.push(file.basename());
+    }
+    t.same(realFiles, ['target.txt']);
+
+    await t.rejects(file.writeFile('Fail', {atomic: true, flag: 'a'}), {
+      name: 'TypeError',
+      message: 'Flag "a" is not supported for atomic writes'
+    });
+    t.throws(() => file2.writeFileSync('Fail', {atomic: true, flag: 'wx'}), {name: 'TypeError'});
+    await file.writeFile('Default flag', {atomic: true, flag: 'w'});
+    t.equal(await file.readFile('utf8'), 'Default flag');
+    t.equal(file2.readFileSync('utf8'), 'Hello again!');
+
+    const backend = new NodeBackend();
+    backend.rename = async () => {
+      throw Object.assign(new Error('Rename failed'), {code: 'EXDEV', syscall: 'rename'});
+    };
+    backend.rm = async () => {
+      throw new Error('Cleanup failed');
+    };
+    backend.renameSync = () => {
+      throw Object.assign(new Error('Rename failed'), {code: 'EXDEV', syscall: 'rename'});
+    };
+    backend.rmSync = () => {
+      throw new Error('Cleanup failed');
+    };
+    const broken = new Path(file.toString());
+    broken.backend = backend;
+    await t.rejects(broken.writeFile('Fail', {atomic: true}), {code: 'EXDEV', operation: 'writeFile'});
+    t.throws(() => broken.writeFileSync('Fail', {atomic: true}), {code: 'EXDEV', operation: 'writeFileSync'});
+    t.equal(await file.readFile('utf8'), 'Default flag');
+  });
+
+  await t.test('JSON', async t => {
+    const dir = await Path.tempDir();
+    const file = dir.child('test.json');
+
+    t.equal(await file.writeJSON({foo: 'bar', baz: [1, 2]}), file);
+    t.equal(await file.readFile('utf8'), '{\n  "foo": "bar",\n  "baz": [\n    1,\n    2\n  ]\n}\n');
+    t.same(await file.readJSON(), {foo: 'bar', baz: [1, 2]});
+    await file.writeJSON({foo: 'bar'}, {indent: 0, atomic: true});
+    t.equal(await file.readFile('utf8'), '{"foo":"bar"}\n');
+    t.same(file.writeJSONSync(['yada'], {indent: '\t'}).readJSONSync(), ['yada']);
+    t.equal(file.readFileSync('utf8'), '[\n\t"yada"\n]\n');
+
+    await file.writeFile('﻿{"bom": true}');
+    t.same(await file.readJSON(), {bom: true});
+    t.same(file.readJSONSync(), {bom: true});
+
+    await file.writeFile('{\n  "foo": "bar",\n  "baz": }\n');
+    const error = await file.readJSON().catch(error => error);
+    t.ok(error instanceof ParseError);
+    t.equal(error.name, 'ParseError');
+    t.equal(error.code, 'ERR_PARSE');
+    t.equal(error.path, file.toString());
+    t.equal(error.line, 3);
+    t.equal(error.column, 10);
+    t.ok(error.cause instanceof SyntaxError);
+    t.equal(error.message, `Invalid JSON in ${file} at line 3, column 10`);
+    t.throws(() => file.readJSONSync(), {name: 'ParseError', line: 3, column: 10});
+
+    await file.writeFile('{"foo": "bar"');
+    await t.rejects(file.readJSON(), {line: 1, column: 14});
+    await file.writeFile('');
+    await t.rejects(file.readJSON(), {line: 1, column: 1});
+    await file.writeFile('[1, 2]\n[3]');
+    await t.rejects(file.readJSON(), {line: 2, column: 1});
+
+    await t.rejects(dir.child('missing.json').readJSON(), {name: 'PathNotFoundError', operation: 'readFile'});
+
+    await dir.destroy();
+  });
+
+  await t.test('NDJSON', async t => {
+    const dir = await Path.tempDir();
+    const file = dir.child('test.ndjson');
+
+    t.equal(await file.appendRecord({foo: 'bar'}), file);
+    await file.appendRecord({text: 'multiple\nlines'});
+    t.equal(file.appendRecordSync([1, 2, 3]), file);
+    t.equal(await file.readFile('utf8'), '{"foo":"bar"}\n{"text":"multiple\\nlines"}\n[1,2,3]\n');
+
+    const records = [];
+    for await (const record of file.readRecords()) {
+      records.push(record);
+    }
+    t.same(records, [{foo: 'bar'}, {text: 'multiple\nlines'}, [1, 2, 3]]);
+    t.same([...file.readRecordsSync()], [{foo: 'bar'}, {text: 'multiple\nlines'}, [1, 2, 3]]);
+
+    await file.writeFile('﻿{"a":1}\r\n\r\n  \n{"b":2}\r\n');
+    const records2 = [];
+    for await (const record of file.readRecords()) {
+      records2.push(record);
+    }
+    t.same(records2, [{a: 1}, {b: 2}]);
+    t.same([...file.readRecordsSync()], [{a: 1}, {b: 2}]);
+
+    await file.writeFile('{"a":1}\n\n{"b":2,}\n{"c":3}\n');
+    const records3 = [];
+    const error = await (async () => {
+      for await (const record of file.readRecords()) {
+        records3.push(record);
+      }
+    })().catch(error => error);
+    t.same(records3, [{a: 1}]);
+    t.ok(error instanceof ParseError);
+    t.equal(error.line, 3);
+    t.equal(error.column, 8);
+    t.equal(error.message, `Invalid JSON in ${file} at line 3, column 8`);
+    t.throws(() => [...file.readRecordsSync()], {name: 'ParseError', line: 3, column: 8});
+
+    await t.rejects(
+      (async () => {
+        for await (const record of dir.child('missing.ndjson').readRecords()) t.fail(record);
+      })(),
+      {name: 'PathNotFoundError', operation: 'readRecords'}
+    );
+
+    await dir.destroy();
+  });
+
+  await t.test('.env', async t => {
+    const dir = await Path.tempDir();
+    const file = dir.child('.env');
+
+    await file.writeFile(
+      [
+        '﻿# Comment',
+        'FOO=bar',
+        '  export BAR = baz qux  # Comment',
+        'EMPTY=',
+        'HASH=foo#bar',
+        "SINGLE='single \\n quoted' # Comment",
+        'DOUBLE="double \\"quoted\\"\\n\\t"',
+        'MULTI="multiple',
+        'lines"',
+        'WINDOWS=yes\r',
+        '',
+        'dotted.name-1=works'
+      ].join('\n')
+    );
+    const expected = {
+      FOO: 'bar',
+      BAR: 'baz qux',
+      EMPTY: '',
+      HASH: 'foo#bar',
+      SINGLE: 'single \\n quoted',
+      DOUBLE: 'double "quoted"\n\t',
+      MULTI: 'multiple\nlines',
+      WINDOWS: 'yes',
+      'dotted.name-1': 'works'
+    };
+    t.same(await file.readEnv(), expected);
+    t.same(file.readEnvSync(), expected);
+
+    t.equal(await file.writeEnv(expected), file);
+    t.equal(
+      await file.readFile('utf8'),
+      [
+        'FOO=bar',
+        'BAR="baz qux"',
+        'EMPTY=""',
+        'HASH="foo#bar"',
+        'SINGLE="single \\\\n quoted"',
+        'DOUBLE="double \\"quoted\\"\\n\\t"',
+        'MULTI="multiple\\nlines"',
+        'WINDOWS=yes',
+        'dotted.name-1=works',
+        ''
+      ].join('\n')
+    );
+    t.same(await file.readEnv(), expected);
+    t.same(file.writeEnvSync({URL: 'https://mojojs.org/path?a=1'}, {atomic: true}).readEnvSync(), {
+      URL: 'https://mojojs.org/path?a=1'
+    });
+    t.throws(() => file.writeEnvSync({'1FOO': 'bar'}), {
+      name: 'TypeError',
+      message: 'Invalid environment variable name: 1FOO'
+    });
+
+    await file.writeFile('FOO=bar\n  BAR\n');
+    const error = await file.readEnv().catch(error => error);
+    t.ok(error instanceof ParseError);
+    t.equal(error.message, `Invalid line in ${file} at line 2, column 3`);
+    t.equal(error.line, 2);
+    t.equal(error.column, 3);
+    t.equal(error.path, file.toString());
+    await file.writeFile('FOO=bar\nexport 1BAR=baz\n');
+    t.throws(() => file.readEnvSync(), {message: /Invalid variable name in .+ at line 2, column 8/});
+    await file.writeFile('FOO="bar\nBAR=baz\n');
+    await t.rejects(file.readEnv(), {message: /Unterminated quoted value in .+ at line 1, column 5/});
+    await file.writeFile("FOO='bar' baz\n");
+    await t.rejects(file.readEnv(), {message: /Unexpected character after quoted value in .+ at line 1, column 10/});
+
+    await dir.destroy();
+  });
+
+  await t.test('hash', async t => {
+    const dir = await Path.tempDir();
+    const file = await dir.child('test.txt').writeFile('Hello Mojo!');
+    t.equal(await file.hash(), checksum('Hello Mojo!'));
+    t.equal(file.hashSync(), checksum('Hello Mojo!'));
+    t.equal(await file.hash('md5'), checksum('Hello Mojo!', 'md5'));
+    t.equal(file.hashSync('md5'), checksum('Hello Mojo!', 'md5'));
+    const base64 = crypto.createHash('sha1').update('Hello Mojo!').digest('base64');
+    t.equal(await file.hash('sha1', {encoding: 'base64'}), base64);
+    t.equal(file.hashSync('sha1', {encoding: 'base64'}), base64);
+    t.equal(await (await dir.child('empty.txt').writeFile('')).hash(), checksum(''));
+    await t.rejects(dir.child('missing.txt').hash(), {code: 'ENOENT'});
+    t.throws(() => dir.child('missing.txt').hashSync(), {code: 'ENOENT'});
+  });
+
+  await t.test('digest, manifest and verify', async t => {
+    const dir = await Path.tempDir();
+    await dir.child('foo', 'bar').mkdir({recursive: true});
+    await dir.child('foo', 'bar', 'one.txt').writeFile('One');
+    await dir.child('foo', 'two.txt').writeFile('Two');
+    await dir.child('three.txt').writeFile('Three');
+    await dir.child('.hidden.txt').writeFile('Hidden');
+
+    const manifest = await dir.manifest();
+    t.same(Object.keys(manifest), ['foo/bar/one.txt', 'foo/two.txt', 'three.txt']);
+    t.equal(manifest['foo/two.txt'], checksum('Two'));
+    t.same(Object.keys(await dir.manifest({hidden: true})), [
+      '.hidden.txt',
+      'foo/bar/one.txt',
+      'foo/two.txt',
+      'three.txt'
+    ]);
+    t.same(Object.keys(await dir.manifest({exclude: 'foo/bar'})), ['foo/two.txt', 'three.txt']);
+    t.equal((await dir.manifest({algorithm: 'md5'}))['three.txt'], checksum('Three', 'md5'));
+
+    const digest = await dir.digest();
+    t.match(digest, /^[0-9a-f]{64}$/);
+    t.equal(await dir.digest(), digest);
+    t.not(await dir.digest({hidden: true}), digest);
+    t.match(await dir.digest({algorithm: 'md5'}), /^[0-9a-f]{32}$/);
+    t.match(await dir.digest({encoding: 'base64'}), /^[A-Za-z0-9+/]+=*$/);
+
+    const copy = await Path.tempDir();
+    await copy.child('three.txt').writeFile('Three');
+    await copy.child('foo').mkdir();
+    await copy.child('foo', 'two.txt').writeFile('Two');
+    await copy.child('foo', 'bar').mkdir();
+    await copy.child('foo', 'bar', 'one.txt').writeFile('One');
+    t.equal(await copy.digest(), digest);
+
+    const modeDigest = await dir.digest({mode: true});
+    t.not(modeDigest, digest);
+    t.equal(await copy.digest({mode: true}), modeDigest);
+    if (process.platform !== 'win32') {
+      await copy.child('three.txt').chmod(0o755);
+      t.not(await copy.digest({mode: true}), modeDigest);
+      t.equal(await copy.digest(), digest);
+    }
+
+    await copy.child('foo', 'bar', 'one.txt').rename(copy.child('foo', 'bar', 'uno.txt'));
+    t.not(await copy.digest(), digest);
+
+    t.same(await dir.verify(manifest), {extra: [], mismatched: [], missing: []});
+    await dir.child('foo', 'two.txt').writeFile('Zwei');
+    await dir.child('three.txt').rm();
+    await dir.child('four.txt').writeFile('Four');
+    t.same(await dir.verify(manifest), {extra: ['four.txt'], mismatched: ['foo/two.txt'], missing: ['three.txt']});
+    t.same(await dir.verify(manifest, {exclude: 'four.txt'}), {
+      extra: [],
+      mismatched: ['foo/two.txt'],
+      missing: ['three.txt']
+    });
+  });
+
   await t.test('truncate', async t => {
     const dir = await Path.tempDir();
 
@@ -188,6 +765,364 @@ t.test('Path', async t => {
     t.equal(oldFile.readFileSync('utf8'), 'Hello Mojo again!');
   });
 
+  await t.test('copy and move', async t => {
+    const dir = await Path.tempDir();
+
+    const src = dir.child('src');
+    await src.child('sub').mkdir({recursive: true});
+    await src.child('one.txt').writeFile('One');
+    await src.child('sub', 'two.txt').writeFile('Two');
+    await src.child('sub', 'three.log').writeFile('Three');
+    const past = new Date('2020-01-01T00:00:00Z');
+    await src.child('one.txt').utimes(past, past);
+
+    const dest = dir.child('dest');
+    t.same((await src.copy(dest, {recursive: true, filter: file => file.extname() !== '.log'})).basename(), 'src');
+    t.equal(await dest.child('one.txt').readFile('utf8'), 'One');
+    t.equal(await dest.child('sub', 'two.txt').readFile('utf8'), 'Two');
+    t.same(await dest.child('sub', 'three.log').exists(), false);
+    t.not((await dest.child('one.txt').stat()).mtimeMs, past.getTime());
+
+    await src.child('one.txt').writeFile('New');
+    await src.child('one.txt').utimes(past, past);
+    await src.copy(dest, {recursive: true, overwrite: false});
+    t.equal(await dest.child('one.txt').readFile('utf8'), 'One');
+    await src.copy(dest, {recursive: true, preserveTimestamps: true});
+    t.equal(await dest.child('one.txt').readFile('utf8'), 'New');
+    t.equal((await dest.child('one.txt').stat()).mtimeMs, past.getTime());
+
+    const dest2 = dir.child('dest2');
+    t.same(src.copySync(dest2, {recursive: true, filter: file => file.basename() !== 'sub'}).basename(), 'src');
+    t.equal(dest2.child('one.txt').readFileSync('utf8'), 'New');
+    t.same(dest2.child('sub').existsSync(), false);
+    src.child('one.txt').copySync(dest2.child('four.txt'));
+    t.equal(dest2.child('four.txt').readFileSync('utf8'), 'New');
+
+    const moved = await dest.move(dir.child('moved'));
+    t.equal(moved.toString(), dir.child('moved').toString());
+    t.same(await dest.exists(), false);
+    t.equal(await moved.child('sub', 'two.txt').readFile('utf8'), 'Two');
+    const movedFile = await moved.child('one.txt').move(dir.child('moved.txt'));
+    t.equal(await movedFile.readFile('utf8'), 'New');
+
+    const moved2 = dest2.moveSync(dir.child('moved2'));
+    t.same(dest2.existsSync(), false);
+    t.equal(moved2.child('four.txt').readFileSync('utf8'), 'New');
+    const movedFile2 = moved2.child('four.txt').moveSync(dir.child('moved2.txt'));
+    t.equal(movedFile2.readFileSync('utf8'), 'New');
+  });
+
+  await t.test('du and largest', async t => {
+    const dir = await Path.tempDir();
+    await dir.materialize({
+      'a.txt': 'a'.repeat(1000),
+      'b.txt': 'b'.repeat(10),
+      'sub/': {'c.txt': 'c'.repeat(5000), 'deep/': {'d.txt': 'd'.repeat(300)}},
+      'empty/': {},
+      '.hidden/': {'e.txt': 'e'.repeat(20000)}
+    });
+    await fsPromises.link(dir.child('sub', 'c.txt').toString(), dir.child('link.txt').toString());
+    await dir.child('sub').symlink(dir.child('symlink'));
+
+    const size = async (...parts) => Number((await dir.child(...parts).lstat()).size);
+    const dirSizes = (await size()) + (await size('sub')) + (await size('sub', 'deep')) + (await size('empty'));
+    const apparent = await dir.du({apparent: true});
+    t.equal(apparent.files, 5);
+    t.equal(apparent.dirs, 4);
+    const symlinkSize = await size('symlink');
+    t.equal(apparent.bytes, 1000 + 10 + 5000 + 300 + symlinkSize + dirSizes);
+    t.ok(apparent.blocks > 0);
+    t.equal(apparent.children, undefined);
+
+    const allocated = await dir.du();
+    t.equal(allocated.bytes, allocated.blocks * 512);
+    t.equal(allocated.blocks, apparent.blocks);
+
+    const hidden = await dir.du({apparent: true, hidden: true});
+    t.equal(hidden.files, 6);
+    t.equal(hidden.dirs, 5);
+    t.equal(hidden.bytes, apparent.bytes + 20000 + (await size('.hidden')));
+
+    const shallow = await dir.du({apparent: true, maxDepth: 1});
+    t.equal(shallow.files, 4);
+    t.equal(shallow.dirs, 3);
+
+    const followed = await dir.du({apparent: true, followSymlinks: true});
+    t.equal(followed.files, 4);
+    t.equal(followed.dirs, 4);
+    t.equal(followed.bytes, 1000 + 10 + 5000 + 300 + dirSizes);
+
+    const {children} = await dir.du({apparent: true, children: true});
+    t.same(
+      children.map(child => [dir.relative(child.path).toString(), child.bytes, child.files, child.dirs]),
+      [
+        ['sub', 300 + (await size('sub')) + (await size('sub', 'deep')), 1, 2],
+        ['a.txt', 1000, 1, 0],
+        ['empty', await size('empty'), 0, 1],
+        ['symlink', symlinkSize, 1, 0],
+        ['b.txt', 10, 1, 0],
+        ['link.txt', 5000, 1, 0]
+      ].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    );
+    t.ok(children[0].path instanceof Path);
+
+    const file = await dir.child('a.txt').du({apparent: true});
+    t.same(file, {blocks: file.blocks, bytes: 1000, dirs: 0, files: 1});
+
+    const largest = await dir.largest(3, {apparent: true});
+    t.same(
+      largest.map(file => [dir.relative(file.path).toString(), file.bytes]),
+      [
+        ['link.txt', 5000],
+        ['a.txt', 1000],
+        [path.join('sub', 'deep', 'd.txt'), 300]
+      ]
+    );
+    t.ok(largest[0].blocks > 0);
+    t.same(
+      (await dir.largest(2, {apparent: true, hidden: true})).map(file => file.bytes),
+      [20000, 5000]
+    );
+    t.same(
+      (await dir.largest(10, {apparent: true, maxDepth: 1})).map(file => file.path.basename()),
+      ['link.txt', 'a.txt', 'b.txt']
+    );
+    t.same(await dir.largest(0), []);
+
+    await t.rejects(dir.child('missing').du(), {name: 'PathNotFoundError', operation: 'lstat'});
+
+    await dir.destroy();
+  });
+
+  await t.test('diff and syncTo', async t => {
+    const dir = await Path.tempDir();
+    const source = await dir.child('source').mkdir();
+    const target = dir.child('target');
+    await source.child('foo', 'bar').mkdir({recursive: true});
+    await source.child('foo', 'bar', 'one.txt').writeFile('One');
+    await source.child('foo', 'two.txt').writeFile('Two');
+    await source.child('three.txt').writeFile('Three');
+    await source.child('.hidden.txt').writeFile('Hidden');
+
+    const names = files => files.map(file => file.toArray().join('/'));
+    const diff = await source.diff(target, {recursive: true});
+    t.same(names(diff.added), ['foo', 'foo/bar', 'foo/bar/one.txt', 'foo/two.txt', 'three.txt']);
+    t.same(diff.changed, []);
+    t.same(diff.removed, []);
+    t.same(diff.typeChanged, []);
+    t.same(names((await source.diff(target)).added), ['foo', 'three.txt']);
+    t.same(names((await source.diff(target, {hidden: true})).added), ['.hidden.txt', 'foo', 'three.txt']);
+
+    const dryRun = await source.syncTo(target, {recursive: true, dryRun: true});
+    t.same(names(dryRun.created), ['foo', 'foo/bar']);
+    t.same(names(dryRun.copied), ['foo/bar/one.txt', 'foo/two.txt', 'three.txt']);
+    t.same(await target.exists(), false);
+
+    const report = await source.syncTo(target.toString(), {recursive: true});
+    t.same(names(report.created), ['foo', 'foo/bar']);
+    t.same(names(report.copied), ['foo/bar/one.txt', 'foo/two.txt', 'three.txt']);
+    t.same(report.deleted, []);
+    t.same(report.skipped, []);
+    t.equal(await target.child('foo', 'bar', 'one.txt').readFile('utf8'), 'One');
+    t.same(await target.child('.hidden.txt').exists(), false);
+    t.same(await source.diff(target, {recursive: true}), {added: [], changed: [], removed: [], typeChanged: []});
+    t.same((await source.syncTo(target, {recursive: true})).copied, []);
+
+    const past = new Date(Date.now() - 60000);
+    await source.child('three.txt').utimes(past, past);
+    await source.child('foo', 'two.txt').writeFile('Zwei');
+    await target.child('four.txt').writeFile('Four');
+    await target.child('old', 'stuff').mkdir({recursive: true});
+    await target.child('old', 'stuff', 'five.txt').writeFile('Five');
+    await source.child('foo', 'bar', 'one.txt').rm();
+    await source.child('foo', 'bar', 'one.txt').mkdir();
+    await source.child('foo', 'bar', 'one.txt', 'six.txt').writeFile('Six');
+
+    const diff2 = await source.diff(target, {recursive: true});
+    t.same(names(diff2.added), ['foo/bar/one.txt/six.txt']);
+    t.same(names(diff2.changed), ['foo/two.txt', 'three.txt']);
+    t.same(names(diff2.removed), ['four.txt', 'old', 'old/stuff', 'old/stuff/five.txt']);
+    t.same(names(diff2.typeChanged), ['foo/bar/one.txt']);
+    t.same(names((await source.diff(target, {recursive: true, compare: 'size'})).changed), ['foo/two.txt']);
+    t.same(names((await source.diff(target, {recursive: true, compare: 'hash'})).changed), ['foo/two.txt']);
+
+    const report2 = await source.syncTo(target, {recursive: true, filter: file => file.basename() !== 'three.txt'});
+    t.same(names(report2.created), ['foo/bar/one.txt']);
+    t.same(names(report2.copied), ['foo/bar/one.txt/six.txt', 'foo/two.txt']);
+    t.same(report2.deleted, []);
+    t.same(names(report2.skipped), ['three.txt']);
+    t.equal(await target.child('foo', 'two.txt').readFile('utf8'), 'Zwei');
+    t.equal(await target.child('foo', 'bar', 'one.txt', 'six.txt').readFile('utf8'), 'Six');
+    t.same(await target.child('four.txt').exists(), true);
+
+    const report3 = await source.syncTo(target, {
+      recursive: true,
+      delete: true,
+      filter: file => file.basename() !== 'old'
+    });
+    t.same(names(report3.copied), ['three.txt']);
+    t.same(names(report3.deleted), ['four.txt']);
+    t.same(names(report3.skipped), ['old']);
+    t.same(await target.child('four.txt').exists(), false);
+    t.same(await target.child('old', 'stuff', 'five.txt').exists(), true);
+
+    const report4 = await source.syncTo(target, {recursive: true, delete: true, dryRun: true});
+    t.same(names(report4.deleted), ['old', 'old/stuff', 'old/stuff/five.txt']);
+    t.same(await target.child('old').exists(), true);
+    const report5 = await source.syncTo(target, {recursive: true, delete: true});
+    t.same(names(report5.deleted), ['old', 'old/stuff', 'old/stuff/five.txt']);
+    t.same(await target.child('old').exists(), false);
+    t.same(await source.diff(target, {recursive: true}), {added: [], changed: [], removed: [], typeChanged: []});
+
+    await source.child('three.txt').symlink(source.child('link.txt'));
+    t.same(names((await source.syncTo(target, {recursive: true})).copied), ['link.txt']);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    for (const compare of ['mtime', 'hash', 'size']) {
+      t.same((await source.diff(target, {recursive: true, compare})).changed, []);
+    }
+    t.same((await source.syncTo(target, {recursive: true})).copied, []);
+    await source.child('link.txt').rm();
+    await source.child('foo', 'two.txt').symlink(source.child('link.txt'));
+    t.same(names((await source.diff(target, {recursive: true})).changed), ['link.txt']);
+
+    await dir.destroy();
+  });
+
+  await t.test('pack and unpack', async t => {
+    const dir = await Path.tempDir();
+    const source = await dir.child('source').mkdir();
+    await source.child('foo', 'bar').mkdir({recursive: true});
+    await source.child('foo', 'bar', 'one.txt').writeFile('One');
+    await source.child('foo', 'two.txt').writeFile('Two');
+    await source.child('.hidden.txt').writeFile('Hidden');
+    await source.child('script.sh').writeFile('#!/bin/sh\n');
+    await source.child('script.sh').chmod(0o750);
+    await source.child('empty.txt').writeFile('');
+    await source.child('foo', 'two.txt').symlink(source.child('link.txt'));
+    const past = new Date('2020-01-01T00:00:00Z');
+    await source.child('foo', 'two.txt').utimes(past, past);
+    await source.child('foo', 'bar').utimes(past, past);
+
+    const names = async dir => {
+      const files = [];
+      for await (const file of dir.list({recursive: true, dir: true, hidden: true})) {
+        files.push(dir.relative(file).toArray().join('/'));
+      }
+      return files.sort();
+    };
+
+    const archive = await source.pack(dir.child('source.tar'));
+    t.equal(archive.toString(), dir.child('source.tar').toString());
+    t.equal((await archive.stat()).size % 512, 0);
+    const target = await dir.child('target').unpack(archive);
+    t.same(await names(target), await names(source));
+    t.equal(await target.child('foo', 'bar', 'one.txt').readFile('utf8'), 'One');
+    t.equal(await target.child('.hidden.txt').readFile('utf8'), 'Hidden');
+    t.equal(await target.child('empty.txt').readFile('utf8'), '');
+    t.equal((await target.child('script.sh').stat()).mode & 0o777, 0o750);
+    t.equal((await target.child('foo', 'two.txt').stat()).mtimeMs, past.getTime());
+    t.equal((await target.child('foo', 'bar').stat()).mtimeMs, past.getTime());
+    t.same((await target.child('link.txt').lstat()).isSymbolicLink(), true);
+    t.equal(await target.child('link.txt').readFile('utf8'), 'Two');
+
+    const inside = await source.pack(source.child('inside.tar'));
+    const target2 = await dir.child('target2').unpack(inside.toString());
+    t.same(await target2.child('inside.tar').exists(), false);
+    await inside.rm();
+
+    const gzipped = await source.pack(dir.child('source.tar.gz').toString(), {gzip: true, portable: true});
+    t.same([...(await gzipped.readFile()).subarray(0, 2)], [0x1f, 0x8b]);
+    const target3 = await dir.child('target3').unpack(gzipped);
+    t.same(await names(target3), await names(source));
+    t.equal(await target3.child('foo', 'two.txt').readFile('utf8'), 'Two');
+
+    const filtered = await source.pack(dir.child('filtered.tar'), {
+      filter: file => file.toArray().join('/') !== 'foo/bar' && file.extname() !== '.sh'
+    });
+    const target4 = await dir.child('target4').unpack(filtered);
+    t.same(await names(target4), ['.hidden.txt', 'empty.txt', 'foo', 'foo/two.txt', 'link.txt']);
+
+    const target5 = await dir
+      .child('target5')
+      .unpack(archive, {strip: 1, filter: file => file.basename() !== 'one.txt'});
+    t.same(await names(target5), ['bar', 'two.txt']);
+
+    const deep = source.child('a'.repeat(60), 'b'.repeat(60), 'c'.repeat(60));
+    await deep.mkdir({recursive: true});
+    await deep.child('d'.repeat(120) + '.txt').writeFile('Deep');
+    const target6 = await dir.child('target6').unpack(await source.pack(dir.child('deep.tar')));
+    t.equal(await target6.child(...source.relative(deep).toArray(), 'd'.repeat(120) + '.txt').readFile('utf8'), 'Deep');
+
+    const entry = (name, data, type = '0') => {
+      const header = {gid: 0, linkname: '', mode: 0o644, mtime: 0, name, size: data.length, type, uid: 0};
+      if (type === '2') Object.assign(header, {linkname: data, size: 0});
+      const body = type === '2' ? Buffer.alloc(0) : Buffer.from(data);
+      return Buffer.concat([encodeHeader(header), body, Buffer.alloc((512 - (body.length % 512)) % 512)]);
+    };
+    const evil = async (name, ...entries) => {
+      return await dir.child(name).writeFile(Buffer.concat([...entries, Buffer.alloc(1024)]));
+    };
+    const escape = dir.child('escape');
+    await t.rejects(escape.unpack(await evil('dotdot.tar', entry('../evil.txt', 'Evil'))), {
+      name: 'UnsafePathError',
+      code: 'ERR_UNSAFE_PATH',
+      base: escape.toString(),
+      path: '../evil.txt',
+      message: /Refusing to unpack entry outside of target directory: \.\.\/evil\.txt/
+    });
+    await t.rejects(escape.unpack(await evil('nested.tar', entry('foo/../../evil.txt', 'Evil'))), {
+      message: /outside of target directory/
+    });
+    await t.rejects(escape.unpack(await evil('absolute.tar', entry('/tmp/evil.txt', 'Evil'))), {
+      message: /outside of target directory/
+    });
+    await t.rejects(
+      escape.unpack(await evil('symlink.tar', entry('link', dir.toString(), '2'), entry('link/evil.txt', 'Evil'))),
+      {name: 'UnsafePathError', path: escape.child('link').toString(), message: /through symbolic link/}
+    );
+    t.same(await dir.child('evil.txt').exists(), false);
+    const outside = await dir.child('outside.txt').writeFile('Secret');
+    const hardlink = (name, linkname) =>
+      encodeHeader({gid: 0, linkname, mode: 0o644, mtime: 0, name, size: 0, type: '1', uid: 0});
+    await t.rejects(
+      dir.child('escape2').unpack(await evil('hardlink.tar', entry('s', outside.toString(), '2'), hardlink('h', 's'))),
+      {name: 'UnsafePathError', path: 'h', message: /Refusing to unpack hard link to symbolic link: h/}
+    );
+    t.same(await dir.child('escape2', 'h').exists(), false);
+
+    const outsideDir = await dir.child('outside').mkdir();
+    await outsideDir.chmod(0o700);
+    await outsideDir.utimes(past, past);
+    const dirEntry = name =>
+      encodeHeader({gid: 0, linkname: '', mode: 0o777, mtime: 0, name, size: 0, type: '5', uid: 0});
+    const linkThenDir = await evil('linkdir.tar', entry('evil', outsideDir.toString(), '2'), dirEntry('evil/'));
+    const linkdir = await dir.child('linkdir').unpack(linkThenDir);
+    t.same((await linkdir.child('evil').lstat()).isDirectory(), true);
+    t.equal((await linkdir.child('evil').stat()).mode & 0o777, 0o777);
+    const dirThenLink = await evil('dirlink.tar', dirEntry('evil2/'), entry('evil2', outsideDir.toString(), '2'));
+    const dirlink = await dir.child('dirlink').unpack(dirThenLink);
+    t.same((await dirlink.child('evil2').lstat()).isSymbolicLink(), true);
+    t.equal((await outsideDir.stat()).mode & 0o777, 0o700);
+    t.equal((await outsideDir.stat()).mtimeMs, past.getTime());
+
+    const setuid = (name, mode) => {
+      const header = {gid: 0, linkname: '', mode, mtime: 0, name, size: 4, type: '0', uid: 0};
+      return Buffer.concat([encodeHeader(header), Buffer.from('Test'), Buffer.alloc(508)]);
+    };
+    const modes = await evil('setuid.tar', setuid('suid', 0o4755), setuid('sgid', 0o2755));
+    const unpacked = await dir.child('setuid').unpack(modes);
+    t.equal((await unpacked.child('suid').stat()).mode & 0o7777, 0o755);
+    t.equal((await unpacked.child('sgid').stat()).mode & 0o7777, 0o755);
+    const preserved = await dir.child('setuid2').unpack(modes, {preserveSetuid: true});
+    t.equal((await preserved.child('suid').stat()).mode & 0o7777, 0o4755);
+
+    await t.rejects(escape.unpack(await dir.child('broken.tar').writeFile(Buffer.alloc(512, 'x'))), {
+      message: 'Invalid tar header checksum'
+    });
+
+    await dir.destroy();
+  });
+
   await t.test('touch', async t => {
     const dir = await Path.tempDir();
     const file = dir.child('test.txt');
@@ -207,6 +1142,88 @@ t.test('Path', async t => {
     t.not(file2.utimesSync(future2, future2).touchSync().statSync().mtimeMs, future2.getTime());
   });
 
+  await t.test('Errors', async t => {
+    const dir = await Path.tempDir();
+    const missing = dir.child('missing.txt');
+    const file = await dir.child('test.txt').writeFile('Hello');
+
+    const error = await missing.readFile().catch(error => error);
+    t.ok(error instanceof PathNotFoundError);
+    t.ok(error instanceof PathError);
+    t.equal(error.name, 'PathNotFoundError');
+    t.equal(error.code, 'ENOENT');
+    t.equal(error.syscall, 'open');
+    t.equal(error.operation, 'readFile');
+    t.equal(error.path, missing.toString());
+    t.equal(error.cause.code, 'ENOENT');
+    t.equal(error.message, `readFile failed: ${error.cause.message}`);
+
+    t.throws(() => missing.readFileSync(), {name: 'PathNotFoundError', operation: 'readFileSync', code: 'ENOENT'});
+    await t.rejects(missing.stat(), PathNotFoundError);
+    t.throws(() => missing.statSync(), PathNotFoundError);
+    await t.rejects(missing.rm(), {name: 'PathNotFoundError', operation: 'rm'});
+    await t.rejects(missing.hash(), {name: 'PathNotFoundError', operation: 'hash'});
+    await t.rejects(missing.tail(), {name: 'PathNotFoundError', operation: 'stat'});
+    await t.rejects(missing.copy(dir.child('copy.txt')), {name: 'PathNotFoundError', operation: 'copy'});
+    t.throws(() => missing.copyFileSync(dir.child('copy.txt')), {name: 'PathNotFoundError', operation: 'copyFileSync'});
+
+    await t.rejects(dir.mkdir(), {name: 'PathExistsError', operation: 'mkdir', code: 'EEXIST', path: dir.toString()});
+    t.throws(() => dir.mkdirSync(), PathExistsError);
+    await t.rejects(dir.rm(), {name: 'IsADirectoryError', operation: 'rm', code: 'ERR_FS_EISDIR'});
+    t.throws(() => dir.rmSync(), IsADirectoryError);
+    const existing = await dir.child('existing.txt').writeFile('Existing');
+    await t.rejects(file.copy(existing, {overwrite: false, errorOnExist: true}), {
+      name: 'PathExistsError',
+      operation: 'copy',
+      code: 'ERR_FS_CP_EEXIST'
+    });
+    await t.rejects(
+      dir
+        .child('sub')
+        .mkdir()
+        .then(sub => sub.copy(existing, {recursive: true})),
+      {
+        name: 'NotADirectoryError',
+        code: 'ERR_FS_CP_DIR_TO_NON_DIR'
+      }
+    );
+    await t.rejects(file.copy(dir.child('sub')), {name: 'IsADirectoryError', code: 'ERR_FS_CP_NON_DIR_TO_DIR'});
+    await t.rejects(
+      (async () => {
+        for await (const line of missing.lines()) t.fail(line);
+      })(),
+      {name: 'PathNotFoundError', operation: 'lines', code: 'ENOENT', path: missing.toString()}
+    );
+
+    await t.rejects(file.child('foo.txt').writeFile('Fail'), {name: 'NotADirectoryError', operation: 'writeFile'});
+    t.throws(() => file.child('foo.txt').writeFileSync('Fail'), NotADirectoryError);
+    await t.rejects(file.child('foo.txt').touch(), {name: 'NotADirectoryError', operation: 'touch'});
+    t.throws(() => file.child('foo.txt').touchSync(), {name: 'NotADirectoryError', operation: 'touchSync'});
+    await t.rejects(
+      (async () => {
+        for await (const entry of file.list()) t.fail(entry.toString());
+      })(),
+      {name: 'NotADirectoryError', operation: 'list'}
+    );
+
+    const cause = Object.assign(new Error('EACCES: permission denied, open'), {code: 'EACCES', syscall: 'open'});
+    const denied = pathError(cause, 'readFile', '/etc/shadow');
+    t.ok(denied instanceof PermissionDeniedError);
+    t.equal(denied.path, '/etc/shadow');
+    t.equal(denied.cause, cause);
+    t.ok(
+      pathError(Object.assign(new Error(), {code: 'EPERM', syscall: 'rm'}), 'rm', '/') instanceof PermissionDeniedError
+    );
+    t.ok(
+      pathError(Object.assign(new Error(), {code: 'EIO', syscall: 'read'}), 'readFile', '/foo') instanceof PathError
+    );
+    t.equal(pathError(denied, 'copy', '/foo'), denied);
+    const typeError = new TypeError('Invalid mode');
+    t.equal(pathError(typeError, 'chmod', '/foo'), typeError);
+
+    await dir.destroy();
+  });
+
   await t.test('mkdir', async t => {
     const dir = await Path.tempDir();
     const foo = dir.child('foo');
@@ -222,6 +1239,69 @@ t.test('Path', async t => {
     t.ok(foo.existsSync(), true);
   });
 
+  await t.test('materialize and snapshot', async t => {
+    const dir = await Path.tempDir();
+    t.equal(
+      await dir.materialize({
+        'a.txt': 'hi',
+        'sub/': {'b.json': {foo: 'bar', baz: [1, 2, 3]}, 'empty/': {}},
+        'deep/nested/c.txt': Buffer.from('Nested'),
+        'empty.txt': null,
+        '.hidden.txt': 'Hidden',
+        'binary.bin': Buffer.from([0xff, 0xfe, 0x00]),
+        'run.sh': Path.file('#!/bin/sh\n', {mode: 0o750}),
+        link: Path.symlinkTo('a.txt')
+      }),
+      dir
+    );
+    t.equal(await dir.child('a.txt').readFile('utf8'), 'hi');
+    t.same(JSON.parse(await dir.child('sub', 'b.json').readFile('utf8')), {foo: 'bar', baz: [1, 2, 3]});
+    t.same((await dir.child('sub', 'empty').stat()).isDirectory(), true);
+    t.equal(await dir.child('deep', 'nested', 'c.txt').readFile('utf8'), 'Nested');
+    t.equal((await dir.child('run.sh').stat()).mode & 0o777, 0o750);
+    t.equal(await dir.child('link').readFile('utf8'), 'hi');
+
+    t.same(await dir.snapshot(), {
+      'a.txt': 'hi',
+      'binary.bin': Buffer.from([0xff, 0xfe, 0x00]),
+      'deep/': {'nested/': {'c.txt': 'Nested'}},
+      'empty.txt': '',
+      link: Path.symlinkTo('a.txt'),
+      'run.sh': '#!/bin/sh\n',
+      'sub/': {'b.json': {foo: 'bar', baz: [1, 2, 3]}, 'empty/': {}}
+    });
+    t.notSame(await dir.snapshot(), {'a.txt': 'hi'});
+    t.notSame((await dir.snapshot()).link, Path.symlinkTo('b.txt'));
+    t.equal((await dir.snapshot({hidden: true}))['.hidden.txt'], 'Hidden');
+    t.same(await dir.child('deep').snapshot({contents: false}), {'nested/': {'c.txt': null}});
+    t.same((await dir.snapshot({modes: true}))['run.sh'], Path.file('#!/bin/sh\n', {mode: 0o750}));
+
+    const snapshot = await dir.snapshot({hidden: true, modes: true});
+    const copy = await Path.tempDir();
+    t.same(await (await copy.materialize(snapshot)).snapshot({hidden: true, modes: true}), snapshot);
+    await copy.destroy();
+    await dir.child('sub', 'invalid.json').writeFile('{');
+    t.equal((await dir.child('sub').snapshot())['invalid.json'], '{');
+
+    await t.rejects(dir.materialize({'../escape.txt': 'Fail'}), {message: 'Invalid tree entry name: ../escape.txt'});
+    await t.rejects(dir.materialize({'/': {}}), {message: 'Invalid tree entry name: /'});
+    await t.rejects(dir.materialize({'sub/': 'text'}), {
+      message: 'Invalid tree entry for directory sub/: expected an object'
+    });
+    await t.rejects(dir.materialize({'sub/': ['a', 'b']}), {
+      message: 'Invalid tree entry for directory sub/: expected an object'
+    });
+    await t.rejects(dir.materialize({'sub/': Path.file('text')}), {
+      message: 'Invalid tree entry for directory sub/: expected an object'
+    });
+    await t.rejects(dir.materialize({'sub/': null}), {
+      message: 'Invalid tree entry for directory sub/: expected an object'
+    });
+    t.same(await dir.child('sub', '0').exists(), false);
+
+    await dir.destroy();
+  });
+
   await t.test('list', async t => {
     const dir = await Path.tempDir();
 
@@ -305,6 +1385,634 @@ t.test('Path', async t => {
     t.same(await bar.exists(), false);
   });
 
+  await t.test('list (include and exclude)', async t => {
+    const dir = await Path.tempDir();
+    await dir.child('src', 'lib').mkdir({recursive: true});
+    await dir.child('src', 'lib', 'one.ts').writeFile('One');
+    await dir.child('src', 'two.js').writeFile('Two');
+    await dir.child('src', 'three.d.ts').writeFile('Three');
+    await dir.child('test').mkdir();
+    await dir.child('test', 'four.js').writeFile('Four');
+
+    const included = [];
+    for await (const file of dir.list({recursive: true, include: '**/*.js'})) {
+      included.push(dir.relative(file).toArray().join('/'));
+    }
+    t.same(included.sort(), ['src/two.js', 'test/four.js']);
+
+    const excluded = [];
+    for await (const file of dir.list({recursive: true, exclude: ['test', '**/*.d.ts']})) {
+      excluded.push(dir.relative(file).toArray().join('/'));
+    }
+    t.same(excluded.sort(), ['src/lib/one.ts', 'src/two.js']);
+
+    const both = [];
+    for await (const file of dir.list({recursive: true, dir: true, include: 'src/**', exclude: 'src/lib/**'})) {
+      both.push(dir.relative(file).toArray().join('/'));
+    }
+    t.same(both.sort(), ['src', 'src/three.d.ts', 'src/two.js']);
+  });
+
+  await t.test('list (ignoreFiles)', async t => {
+    const dir = await Path.tempDir();
+    await dir.child('.gitignore').writeFile('# Dependencies\nnode_modules/\n*.log\n!keep.log\n/build\ndocs/*.html\n');
+    await dir.child('node_modules', 'foo').mkdir({recursive: true});
+    await dir.child('node_modules', 'foo', 'index.js').writeFile('Foo');
+    await dir.child('build').mkdir();
+    await dir.child('build', 'app.js').writeFile('App');
+    await dir.child('debug.log').writeFile('Debug');
+    await dir.child('keep.log').writeFile('Keep');
+    await dir.child('docs').mkdir();
+    await dir.child('docs', 'index.html').writeFile('Index');
+    await dir.child('docs', 'index.md').writeFile('Index');
+    await dir.child('src', 'build').mkdir({recursive: true});
+    await dir.child('src', 'build', 'one.js').writeFile('One');
+    await dir.child('src', 'node_modules').writeFile('Not a directory');
+    await dir.child('src', 'error.log').writeFile('Error');
+    await dir.child('src', '.npmignore').writeFile('!error.log\ntwo.js\n\\#three.js\nfour.js\\ \\ \n');
+    await dir.child('src', 'two.js').writeFile('Two');
+    await dir.child('src', '#three.js').writeFile('Three');
+    await dir.child('src', 'four.js  ').writeFile('Four');
+    await dir.child('src', 'lib').mkdir();
+    await dir.child('src', 'lib', '.gitignore').writeFile('*\n!.gitignore\n!*.ts\n');
+    await dir.child('src', 'lib', 'five.ts').writeFile('Five');
+    await dir.child('src', 'lib', 'six.js').writeFile('Six');
+    await dir.child('vendor', 'dist').mkdir({recursive: true});
+    await dir.child('vendor', '.gitignore').writeFile('dist/**\n!dist/keep.js\n');
+    await dir.child('vendor', 'dist', 'keep.js').writeFile('Keep');
+    await dir.child('vendor', 'dist', 'skip.js').writeFile('Skip');
+
+    const backend = new NodeBackend();
+    const read = [];
+    const opendir = backend.opendir.bind(backend);
+    backend.opendir = async dir => {
+      read.push(dir);
+      return await opendir(dir);
+    };
+    dir.backend = backend;
+
+    const files = [];
+    for await (const file of dir.list({recursive: true, dir: true, ignoreFiles: ['.gitignore', '.npmignore']})) {
+      files.push(dir.relative(file).toArray().join('/'));
+    }
+    t.same(files.sort(), [
+      'docs',
+      'docs/index.md',
+      'keep.log',
+      'src',
+      'src/build',
+      'src/build/one.js',
+      'src/error.log',
+      'src/lib',
+      'src/lib/five.ts',
+      'src/node_modules',
+      'vendor',
+      'vendor/dist',
+      'vendor/dist/keep.js'
+    ]);
+    t.same(
+      read.filter(path => path.includes('node_modules') || path.endsWith('build')),
+      [dir.child('src', 'build').toString()]
+    );
+
+    const hidden = [];
+    for await (const file of dir.list({recursive: true, hidden: true, ignoreFiles: ['.gitignore']})) {
+      hidden.push(dir.relative(file).toArray().join('/'));
+    }
+    t.same(hidden.sort(), [
+      '.gitignore',
+      'docs/index.md',
+      'keep.log',
+      'src/#three.js',
+      'src/.npmignore',
+      'src/build/one.js',
+      'src/four.js  ',
+      'src/lib/.gitignore',
+      'src/lib/five.ts',
+      'src/node_modules',
+      'src/two.js',
+      'vendor/.gitignore',
+      'vendor/dist/keep.js'
+    ]);
+
+    const shallow = [];
+    for await (const file of dir.list({ignoreFiles: ['.gitignore', '.missing']})) {
+      shallow.push(file.basename());
+    }
+    t.same(shallow.sort(), ['keep.log']);
+  });
+
+  await t.test('list (entries)', async t => {
+    const dir = await Path.tempDir();
+    await dir.child('b', 'c').mkdir({recursive: true});
+    await dir.child('b', 'c', 'three.txt').writeFile('Three');
+    await dir.child('b', 'two.txt').writeFile('Two');
+    await dir.child('a.txt').writeFile('One');
+    await dir.child('skip', 'nested').mkdir({recursive: true});
+    await dir.child('skip', 'nested', 'four.txt').writeFile('Four');
+    await dir.child('b').symlink(dir.child('link'));
+    await dir.child('b').symlink(dir.child('b', 'c', 'loop'));
+    await dir.child('missing.txt').symlink(dir.child('broken'));
+
+    const entries = [];
+    for await (const entry of dir.list({recursive: true, dir: true, entries: true, sort: true})) {
+      entries.push(entry);
+    }
+    t.same(
+      entries.map(entry => entry.relative.toArray().join('/')),
+      [
+        'a.txt',
+        'b',
+        'b/c',
+        'b/c/loop',
+        'b/c/three.txt',
+        'b/two.txt',
+        'broken',
+        'link',
+        'skip',
+        'skip/nested',
+        'skip/nested/four.txt'
+      ]
+    );
+    t.same(
+      entries.map(entry => entry.depth),
+      [1, 1, 2, 3, 3, 2, 1, 1, 1, 2, 3]
+    );
+    const [file, subdir] = entries;
+    t.equal(file.path.toString(), dir.child('a.txt').toString());
+    t.equal(file.toString(), dir.child('a.txt').toString());
+    t.same([file.isFile(), file.isDirectory(), file.isSymbolicLink()], [true, false, false]);
+    t.same([subdir.isFile(), subdir.isDirectory(), subdir.isSymbolicLink()], [false, true, false]);
+    const link = entries[7];
+    t.same([link.isFile(), link.isDirectory(), link.isSymbolicLink()], [false, false, true]);
+    t.ok((await link.stat()).isSymbolicLink());
+    const stat = await file.stat();
+    t.equal(Number(stat.size), 3);
+    t.equal(await file.stat(), stat);
+    t.equal(file.statSync(), stat);
+    t.ok(entries[6].statSync().isSymbolicLink());
+
+    const followed = [];
+    for await (const entry of dir.list({recursive: true, entries: true, followSymlinks: true, sort: true})) {
+      followed.push(entry.relative.toArray().join('/'));
+    }
+    t.same(followed, [
+      'a.txt',
+      'b/c/three.txt',
+      'b/two.txt',
+      'broken',
+      'link/c/three.txt',
+      'link/two.txt',
+      'skip/nested/four.txt'
+    ]);
+
+    const links = [];
+    for await (const entry of dir.list({dir: true, entries: true, followSymlinks: true, sort: true})) {
+      if (entry.isSymbolicLink()) links.push([entry.relative.toString(), entry.isDirectory(), entry.isFile()]);
+    }
+    t.same(links, [
+      ['broken', false, false],
+      ['link', true, false]
+    ]);
+    const loop = [];
+    for await (const entry of dir.list({recursive: true, dir: true, entries: true, followSymlinks: true})) {
+      if (entry.relative.basename() === 'loop') loop.push(entry.depth);
+    }
+    t.same(loop.sort(), [3, 3]);
+
+    const filtered = [];
+    const filter = entry => entry.relative.toString() !== 'skip' && !entry.isSymbolicLink();
+    for await (const file of dir.list({recursive: true, dir: true, sort: true, filter})) {
+      filtered.push(dir.relative(file).toArray().join('/'));
+    }
+    t.same(filtered, ['a.txt', 'b', 'b/c', 'b/c/three.txt', 'b/two.txt']);
+
+    const asyncFilter = async entry => !(entry.isFile() && Number((await entry.stat()).size) === 3);
+    const sized = [];
+    for await (const file of dir.list({recursive: true, filter: asyncFilter})) {
+      sized.push(file.basename());
+    }
+    t.same(sized.sort(), ['broken', 'four.txt', 'link', 'loop', 'three.txt']);
+
+    await dir.destroy();
+  });
+
+  await t.test('list (breadthFirst, concurrency and signal)', async t => {
+    const dir = await Path.tempDir();
+    await dir.child('a', 'b', 'c').mkdir({recursive: true});
+    await dir.child('a', 'b', 'c', 'three.txt').writeFile('Three');
+    await dir.child('a', 'b', 'two.txt').writeFile('Two');
+    await dir.child('a', 'one.txt').writeFile('One');
+    await dir.child('d').mkdir();
+    await dir.child('d', 'four.txt').writeFile('Four');
+    await dir.child('five.txt').writeFile('Five');
+    const all = ['a', 'a/b', 'a/b/c', 'a/b/c/three.txt', 'a/b/two.txt', 'a/one.txt', 'd', 'd/four.txt', 'five.txt'];
+    const relative = file => dir.relative(file).toArray().join('/');
+
+    const depthFirst = [];
+    for await (const file of dir.list({recursive: true, dir: true, sort: true})) {
+      depthFirst.push(relative(file));
+    }
+    t.same(depthFirst, [
+      'a',
+      'a/b',
+      'a/b/c',
+      'a/b/c/three.txt',
+      'a/b/two.txt',
+      'a/one.txt',
+      'd',
+      'd/four.txt',
+      'five.txt'
+    ]);
+
+    const breadthFirst = [];
+    for await (const file of dir.list({recursive: true, dir: true, sort: true, breadthFirst: true})) {
+      breadthFirst.push(relative(file));
+    }
+    t.same(breadthFirst, [
+      'a',
+      'd',
+      'five.txt',
+      'a/b',
+      'a/one.txt',
+      'd/four.txt',
+      'a/b/c',
+      'a/b/two.txt',
+      'a/b/c/three.txt'
+    ]);
+
+    const unsorted = [];
+    for await (const file of dir.list({recursive: true, dir: true})) {
+      unsorted.push(relative(file));
+    }
+    t.same(unsorted.sort(), all.sort());
+
+    for (const breadthFirst of [false, true]) {
+      const parallel = [];
+      for await (const entry of dir.list({recursive: true, dir: true, entries: true, concurrency: 4, breadthFirst})) {
+        parallel.push(entry.relative.toArray().join('/'));
+      }
+      t.same(parallel.sort(), all.sort());
+    }
+    const limited = [];
+    for await (const file of dir.list({recursive: true, concurrency: 2, maxDepth: 2, include: '**/*.txt'})) {
+      limited.push(relative(file));
+    }
+    t.same(limited.sort(), ['a/one.txt', 'd/four.txt', 'five.txt']);
+
+    for (const concurrency of [1, 4]) {
+      const controller = new AbortController();
+      const aborted = [];
+      for await (const file of dir.list({recursive: true, dir: true, concurrency, signal: controller.signal})) {
+        aborted.push(file);
+        controller.abort();
+      }
+      t.equal(aborted.length, 1);
+
+      const stopped = [];
+      for await (const file of dir.list({recursive: true, dir: true, concurrency})) {
+        stopped.push(file);
+        if (stopped.length === 3) break;
+      }
+      t.equal(stopped.length, 3);
+    }
+
+    await t.rejects(
+      async () => {
+        for await (const file of dir.child('missing').list({recursive: true, concurrency: 4})) t.fail(file.toString());
+      },
+      {name: 'PathNotFoundError', operation: 'list', syscall: 'opendir'}
+    );
+
+    const sync = [];
+    for (const file of dir.listSync({recursive: true, dir: true, sort: true})) {
+      t.ok(file instanceof Path);
+      sync.push(relative(file));
+    }
+    t.same(sync, depthFirst);
+    const syncBreadthFirst = [];
+    for (const file of dir.listSync({recursive: true, dir: true, sort: true, breadthFirst: true})) {
+      syncBreadthFirst.push(relative(file));
+    }
+    t.same(syncBreadthFirst, breadthFirst);
+    t.same(
+      [...dir.listSync()].map(file => file.basename()),
+      ['five.txt']
+    );
+    const syncEntries = [];
+    const filter = entry => entry.relative.toString() !== 'a';
+    for (const entry of dir.listSync({recursive: true, dir: true, entries: true, sort: true, filter})) {
+      syncEntries.push([entry.relative.toArray().join('/'), entry.depth, entry.isDirectory()]);
+    }
+    t.same(syncEntries, [
+      ['d', 1, true],
+      ['d/four.txt', 2, false],
+      ['five.txt', 1, false]
+    ]);
+    await dir.child('a').symlink(dir.child('a', 'b', 'c', 'loop'));
+    const syncFollowed = [];
+    for (const file of dir.listSync({recursive: true, dir: true, followSymlinks: true, include: 'a/**'})) {
+      syncFollowed.push(relative(file));
+    }
+    t.same(syncFollowed.sort(), ['a', 'a/b', 'a/b/c', 'a/b/c/loop', 'a/b/c/three.txt', 'a/b/two.txt', 'a/one.txt']);
+    t.throws(() => [...dir.child('missing').listSync()], {name: 'PathNotFoundError', operation: 'listSync'});
+
+    await dir.destroy();
+  });
+
+  await t.test('glob', async t => {
+    const dir = await Path.tempDir();
+    await dir.child('src', 'lib').mkdir({recursive: true});
+    await dir.child('src', 'lib', 'one.ts').writeFile('One');
+    await dir.child('src', 'lib', 'two.tsx').writeFile('Two');
+    await dir.child('src', 'three.d.ts').writeFile('Three');
+    await dir.child('src', 'file1.txt').writeFile('Four');
+    await dir.child('src', 'file2.txt').writeFile('Five');
+    await dir.child('src', 'file3.txt').writeFile('Six');
+    await dir.child('src', '.hidden.ts').writeFile('Seven');
+    await dir.child('src', 'node_modules', 'foo').mkdir({recursive: true});
+    await dir.child('src', 'node_modules', 'foo', 'index.ts').writeFile('Eight');
+
+    const glob = async (pattern, options) => {
+      const files = [];
+      for await (const file of dir.glob(pattern, options)) {
+        files.push(dir.relative(file).toArray().join('/'));
+      }
+      return files.sort();
+    };
+    const globSync = (pattern, options) => {
+      return [...dir.globSync(pattern, options)].map(file => dir.relative(file).toArray().join('/')).sort();
+    };
+
+    t.same(await glob('src/**/*.{ts,tsx}', {ignore: ['**/node_modules/**']}), [
+      'src/lib/one.ts',
+      'src/lib/two.tsx',
+      'src/three.d.ts'
+    ]);
+    t.same(await glob('src/**/*.ts'), ['src/lib/one.ts', 'src/node_modules/foo/index.ts', 'src/three.d.ts']);
+    t.same(await glob('src/**/*.ts', {dot: true, ignore: '**/node_modules'}), [
+      'src/.hidden.ts',
+      'src/lib/one.ts',
+      'src/three.d.ts'
+    ]);
+    t.same(await glob(['**/*.ts', '!**/*.d.ts', '!**/node_modules/**']), ['src/lib/one.ts']);
+    t.same(await glob('src/file[12].txt'), ['src/file1.txt', 'src/file2.txt']);
+    t.same(await glob('src/file[!12].txt'), ['src/file3.txt']);
+    t.same(await glob('src/file{1..2}.txt'), ['src/file1.txt', 'src/file2.txt']);
+    t.same(await glob('src/file?.txt'), ['src/file1.txt', 'src/file2.txt', 'src/file3.txt']);
+    t.same(await glob('src/*', {dir: true}), [
+      'src/file1.txt',
+      'src/file2.txt',
+      'src/file3.txt',
+      'src/lib',
+      'src/node_modules',
+      'src/three.d.ts'
+    ]);
+    t.same(await glob('**/*.ts', {maxDepth: 2}), ['src/three.d.ts']);
+    t.same(await glob('nothing/**'), []);
+
+    t.same(globSync('src/**/*.{ts,tsx}', {ignore: ['**/node_modules/**']}), [
+      'src/lib/one.ts',
+      'src/lib/two.tsx',
+      'src/three.d.ts'
+    ]);
+    t.same(globSync('src/file[!12].txt'), ['src/file3.txt']);
+  });
+
+  await t.test('grep', async t => {
+    const dir = await Path.tempDir();
+    await dir.materialize({
+      'a.txt': 'one\ntwo foo\nthree\nfour foo foo\nfive\r\nsix foo',
+      'b.js': 'const foo = 1;\n',
+      'binary.bin': Buffer.from([0x66, 0x6f, 0x6f, 0x00, 0x0a]),
+      'sub/': {'c.txt': 'nothing\nFOO.bar\n', 'd.txt': 'f.o\n'},
+      '.hidden': 'foo\n'
+    });
+    const grep = async (path, pattern, options) => {
+      const matches = [];
+      for await (const match of path.grep(pattern, options)) {
+        matches.push(match);
+      }
+      return matches;
+    };
+
+    const matches = await grep(dir, 'foo');
+    t.same(
+      matches.map(match => [dir.relative(match.path).toString(), match.line, match.column, match.match]),
+      [
+        ['a.txt', 2, 5, 'foo'],
+        ['a.txt', 4, 6, 'foo'],
+        ['a.txt', 4, 10, 'foo'],
+        ['a.txt', 6, 5, 'foo'],
+        ['b.js', 1, 7, 'foo']
+      ]
+    );
+    t.ok(matches[0].path instanceof Path);
+    t.equal(matches[0].text, 'two foo');
+    t.same(matches[0].before, []);
+    t.same(matches[0].after, []);
+
+    const context = await grep(dir, /fo{2}/, {contextLines: 2, glob: '*.txt'});
+    t.same(
+      context.map(match => [match.line, match.before, match.text, match.after]),
+      [
+        [2, ['one'], 'two foo', ['three', 'four foo foo']],
+        [4, ['two foo', 'three'], 'four foo foo', ['five', 'six foo']],
+        [4, ['two foo', 'three'], 'four foo foo', ['five', 'six foo']],
+        [6, ['four foo foo', 'five'], 'six foo', []]
+      ]
+    );
+
+    t.same(
+      (await grep(dir, /foo\.(\w+)/i, {glob: '**/*.txt'})).map(match => [match.path.basename(), match.match]),
+      [['c.txt', 'FOO.bar']]
+    );
+    t.same(
+      (await grep(dir, 'f.o', {glob: 'sub/*'})).map(match => [match.path.basename(), match.match]),
+      [['d.txt', 'f.o']]
+    );
+
+    t.same((await grep(dir, 'foo', {maxMatches: 2, concurrency: 1})).length, 2);
+    t.same((await grep(dir, 'foo', {maxMatches: 0})).length, 0);
+    const limited = await grep(dir.child('a.txt'), 'foo', {maxMatches: 1, contextLines: 1});
+    t.same(
+      limited.map(match => [match.line, match.after]),
+      [[2, ['three']]]
+    );
+
+    const binary = await grep(dir, 'foo', {binary: 'text', glob: '*.bin'});
+    t.same(
+      binary.map(match => [match.path.basename(), match.line, match.column]),
+      [['binary.bin', 1, 1]]
+    );
+
+    const many = await Path.tempDir();
+    for (let i = 0; i < 20; i++) {
+      await many.child(`file${String(i).padStart(2, '0')}.txt`).writeFile(`${'x'.repeat(100000)}\nmatch ${i}\n`);
+    }
+    const ordered = await grep(many, /match (\d+)/, {concurrency: 8});
+    t.same(
+      ordered.map(match => match.text),
+      Array.from({length: 20}, (_, i) => `match ${i}`)
+    );
+    t.same(
+      (await grep(many, /x{100000}/, {maxMatches: 3})).map(match => [match.line, match.column]),
+      [
+        [1, 1],
+        [1, 1],
+        [1, 1]
+      ]
+    );
+
+    await t.rejects(grep(dir.child('missing'), 'foo'), {name: 'PathNotFoundError', operation: 'stat'});
+
+    await many.destroy();
+    await dir.destroy();
+  });
+
+  await t.test('watch', async t => {
+    const dir = await Path.tempDir();
+    await dir.child('existing.txt').writeFile('Existing');
+
+    const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+    const watch = (options, events) => {
+      return (async () => {
+        for await (const event of dir.watch(options)) {
+          events.push([event.type, dir.relative(event.path).toArray().join('/')]);
+          if (events.length === 100) break;
+        }
+      })();
+    };
+    const waitFor = async (events, count) => {
+      for (let i = 0; i < 100 && events.length < count; i++) await sleep(50);
+    };
+
+    const controller = new AbortController();
+    const events = [];
+    const globEvents = [];
+    const done = watch({recursive: true, signal: controller.signal}, events);
+    const globDone = watch({recursive: true, signal: controller.signal, glob: '**/*.js'}, globEvents);
+    await sleep(200);
+
+    await dir.child('one.txt').writeFile('One');
+    await dir.child('one.txt').appendFile('!');
+    await waitFor(events, 1);
+    t.same(events.splice(0), [['add', 'one.txt']]);
+
+    await dir.child('one.txt').appendFile('!');
+    await waitFor(events, 1);
+    t.same(events.splice(0), [['change', 'one.txt']]);
+
+    await dir.child('sub', 'deep').mkdir({recursive: true});
+    await dir.child('sub', 'deep', 'two.js').writeFile('Two');
+    await waitFor(events, 3);
+    t.same(events.splice(0), [
+      ['addDir', 'sub'],
+      ['addDir', 'sub/deep'],
+      ['add', 'sub/deep/two.js']
+    ]);
+
+    await dir.child('existing.txt').rm();
+    await waitFor(events, 1);
+    t.same(events.splice(0), [['unlink', 'existing.txt']]);
+
+    await dir.child('sub').rm({recursive: true});
+    await waitFor(events, 3);
+    t.same(events.splice(0), [
+      ['unlink', 'sub/deep/two.js'],
+      ['unlinkDir', 'sub/deep'],
+      ['unlinkDir', 'sub']
+    ]);
+
+    controller.abort();
+    await done;
+    await globDone;
+    t.same(globEvents, [
+      ['add', 'sub/deep/two.js'],
+      ['unlink', 'sub/deep/two.js']
+    ]);
+
+    const events2 = [];
+    const done2 = watch({debounce: 10}, events2);
+    await sleep(200);
+    await dir.child('three.txt').writeFile('Three');
+    await waitFor(events2, 1);
+    t.same(events2, [['add', 'three.txt']]);
+    for (let i = 0; i < 99; i++) await dir.child(`file${i}.txt`).writeFile('Test');
+    await done2;
+    t.equal(events2.length, 100);
+
+    const backend = new NodeBackend();
+    backend.readdir = async () => {
+      throw Object.assign(new Error('Permission denied'), {code: 'EACCES', syscall: 'scandir'});
+    };
+    const denied = new Path(dir.toString());
+    denied.backend = backend;
+    let result;
+    try {
+      for await (const event of denied.watch()) t.fail(`unexpected event: ${event.type}`);
+    } catch (error) {
+      result = error;
+    }
+    t.ok(result instanceof PermissionDeniedError);
+    t.equal(result.code, 'EACCES');
+    t.equal(result.operation, 'watch');
+    t.equal(result.path, dir.toString());
+  });
+
+  await t.test('watch (without native recursive support)', async t => {
+    const dir = await Path.tempDir();
+    await dir.child('existing', 'nested').mkdir({recursive: true});
+
+    const watch = fs.watch;
+    fs.watch = (path, options = {}) => {
+      if (options.recursive !== true) return watch(path, options);
+      const error = new Error('Feature not available');
+      error.code = 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM';
+      throw error;
+    };
+    t.teardown(() => (fs.watch = watch));
+
+    const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+    const waitFor = async (events, count) => {
+      for (let i = 0; i < 100 && events.length < count; i++) await sleep(50);
+    };
+    const controller = new AbortController();
+    const events = [];
+    const done = (async () => {
+      for await (const event of dir.watch({recursive: true, signal: controller.signal})) {
+        events.push([event.type, dir.relative(event.path).toArray().join('/')]);
+      }
+    })();
+    await sleep(200);
+
+    await dir.child('existing', 'nested', 'one.txt').writeFile('One');
+    await waitFor(events, 1);
+    t.same(events.splice(0), [['add', 'existing/nested/one.txt']]);
+
+    await dir.child('sub', 'deep').mkdir({recursive: true});
+    await waitFor(events, 2);
+    t.same(events.splice(0), [
+      ['addDir', 'sub'],
+      ['addDir', 'sub/deep']
+    ]);
+    await dir.child('sub', 'deep', 'two.txt').writeFile('Two');
+    await waitFor(events, 1);
+    t.same(events.splice(0), [['add', 'sub/deep/two.txt']]);
+
+    await dir.child('sub').rm({recursive: true});
+    await waitFor(events, 3);
+    t.same(events.splice(0), [
+      ['unlink', 'sub/deep/two.txt'],
+      ['unlinkDir', 'sub/deep'],
+      ['unlinkDir', 'sub']
+    ]);
+
+    controller.abort();
+    await done;
+    await dir.destroy();
+  });
+
   await t.test('symlink', async t => {
     const dir = await Path.tempDir();
 
@@ -340,6 +2048,100 @@ t.test('Path', async t => {
     t.same(file2.chmodSync(Path.constants.O_RDONLY).isWritableSync(), false);
   });
 
+  await t.test('chmod (symbolic)', async t => {
+    const dir = await Path.tempDir();
+    const file = await dir.child('test.txt').touch();
+    const mode = async file => (await file.stat()).mode & 0o7777;
+
+    await file.chmod(0o644);
+    t.equal(await mode(await file.chmod('u+x')), 0o744);
+    t.equal(await mode(await file.chmod('go-r')), 0o700);
+    t.equal(await mode(await file.chmod('a=r')), 0o444);
+    t.equal(await mode(await file.chmod('u+w,g+w,o+w')), 0o666);
+    t.equal(await mode(await file.chmod('g-w,o-rwx')), 0o640);
+    t.equal(await mode(await file.chmod('+X')), 0o640);
+    t.equal(await mode(await file.chmod('u+x,+X')), 0o751);
+    t.equal(await mode(await file.chmod('go=u')), 0o777);
+    t.equal(await mode(await file.chmod('u=rw,go=')), 0o600);
+    t.equal(await mode(await file.chmod('u+r-w+x')), 0o500);
+    t.equal(await mode(await file.chmod('ug+s')), 0o6500);
+    t.equal(await mode(await file.chmod('u=rw')), 0o2600);
+    t.equal(await mode(await file.chmod('644')), 0o644);
+    t.equal(file.chmodSync('a+x').statSync().mode & 0o7777, 0o755);
+
+    const sub = await dir.child('sub').mkdir();
+    t.equal(await mode(await sub.chmod('a=rX')), 0o555);
+    t.equal(await mode(await sub.chmod('u+w,+t')), 0o1755);
+    t.equal(resolveMode('g=rx', 0o2775, true), 0o2755);
+    t.equal(resolveMode('g=rx', 0o2775, false), 0o755);
+    t.equal(resolveMode('o=g', 0o750, false), 0o755);
+    t.equal(resolveMode('=', 0o755, false), 0);
+
+    await t.rejects(file.chmod('u+q'), {name: 'TypeError', message: 'Invalid symbolic mode: u+q'});
+    await t.rejects(file.chmod('u+x,'), {name: 'TypeError'});
+    t.throws(() => file.chmodSync('x+u'), {name: 'TypeError'});
+
+    await dir.destroy();
+  });
+
+  await t.test('chmod (recursive)', async t => {
+    const dir = await Path.tempDir();
+    const outside = await dir.child('outside.txt').writeFile('Outside');
+    await outside.chmod(0o600);
+    const tree = await dir.child('tree').materialize({
+      'a.txt': 'A',
+      'run.sh': Path.file('#!/bin/sh\n', {mode: 0o700}),
+      'sub/': {'b.txt': 'B', '.hidden.txt': 'Hidden', 'deep/': {'c.txt': 'C'}},
+      link: Path.symlinkTo(outside.toString())
+    });
+    const modes = async () => {
+      const tree = await dir.child('tree').snapshot({contents: false, hidden: true, modes: true});
+      const flatten = (tree, prefix, result) => {
+        for (const [name, entry] of Object.entries(tree)) {
+          if (name.endsWith('/')) flatten(entry, prefix + name, result);
+          else if (entry.mode !== undefined) result[prefix + name] = entry.mode.toString(8);
+        }
+        return result;
+      };
+      return flatten(tree, '', {});
+    };
+
+    t.equal(await tree.chmod('u=rwX,go=rX', {recursive: true}), tree);
+    t.same(await modes(), {
+      'a.txt': '644',
+      'run.sh': '755',
+      'sub/.hidden.txt': '644',
+      'sub/b.txt': '644',
+      'sub/deep/c.txt': '644'
+    });
+    t.equal((await tree.stat()).mode & 0o777, 0o755);
+    t.equal((await tree.child('sub', 'deep').stat()).mode & 0o777, 0o755);
+    t.equal((await outside.stat()).mode & 0o777, 0o600);
+
+    await tree.chmod(0o600, {recursive: true, dirMode: 0o700});
+    t.same(Object.values(await modes()), ['600', '600', '600', '600', '600']);
+    t.equal((await tree.child('sub').stat()).mode & 0o777, 0o700);
+    t.equal((await outside.stat()).mode & 0o777, 0o600);
+
+    await tree.chmod('go+r', {recursive: true, fileMode: 'a+r', filter: file => file.basename() !== 'deep'});
+    t.equal((await tree.child('sub').stat()).mode & 0o777, 0o744);
+    t.equal((await tree.child('sub', 'deep').stat()).mode & 0o777, 0o700);
+    t.equal((await tree.child('sub', 'deep', 'c.txt').stat()).mode & 0o777, 0o644);
+
+    tree.chmodSync('u=rw,go=', {recursive: true, dirMode: 'u=rwx,go=rx', filter: file => file.extname() !== '.sh'});
+    t.same(await modes(), {
+      'a.txt': '600',
+      'run.sh': '644',
+      'sub/.hidden.txt': '600',
+      'sub/b.txt': '600',
+      'sub/deep/c.txt': '600'
+    });
+    t.equal((await tree.child('sub', 'deep').stat()).mode & 0o777, 0o755);
+    t.equal((await outside.stat()).mode & 0o777, 0o600);
+
+    await dir.destroy();
+  });
+
   await t.test('chown', async t => {
     const dir = await Path.tempDir();
 
@@ -354,6 +2156,22 @@ t.test('Path', async t => {
     const statAfter2 = file2.chownSync(statBefore.uid, statBefore.gid).statSync();
     t.equal(statBefore2.uid, statAfter2.uid);
     t.equal(statBefore2.gid, statAfter2.gid);
+
+    const tree = await dir
+      .child('tree')
+      .materialize({'a.txt': 'A', 'sub/': {'b.txt': 'B'}, link: Path.symlinkTo('a.txt')});
+    const changed = [];
+    const filter = file => {
+      changed.push(tree.relative(file).toArray().join('/'));
+      return true;
+    };
+    const {uid, gid} = await tree.stat();
+    t.equal(await tree.chown(uid, gid, {recursive: true, filter}), tree);
+    t.same(changed.sort(), ['a.txt', 'sub', 'sub/b.txt']);
+    changed.length = 0;
+    t.equal(tree.chownSync(uid, gid, {recursive: true, filter}), tree);
+    t.same(changed.sort(), ['a.txt', 'sub', 'sub/b.txt']);
+    t.equal((await tree.child('sub', 'b.txt').stat()).uid, uid);
   });
 
   await t.test('tempDir', async t => {
@@ -406,6 +2224,249 @@ t.test('Path', async t => {
     t.same(temp6.existsSync(), false);
   });
 
+  await t.test('lock', async t => {
+    const dir = await Path.tempDir();
+    const file = dir.child('cache.json');
+
+    const lock = await file.lock();
+    t.equal(lock.toString(), `${file}.lock`);
+    t.same(await lock.exists(), true);
+    const owner = JSON.parse(await lock.child('owner.json').readFile('utf8'));
+    t.equal(owner.pid, process.pid);
+    t.equal(owner.hostname, os.hostname());
+    await t.rejects(file.lock(), {code: 'ELOCKED', message: /Lock is already held/});
+    t.throws(() => file.lockSync(), {code: 'ELOCKED'});
+    await t.rejects(file.lock({retries: 2}), {code: 'ELOCKED'});
+
+    const start = Date.now();
+    setTimeout(() => lock.release(), 150);
+    const lock2 = await file.lock({timeout: 2000});
+    t.ok(Date.now() - start >= 100);
+    t.same(await lock2.exists(), true);
+    await lock.release();
+    t.same(await lock2.exists(), true);
+    await lock2.release();
+    t.same(await lock2.exists(), false);
+    await lock2.release();
+
+    const lock3 = file.lockSync();
+    t.same(lock3.existsSync(), true);
+    t.throws(() => file.lockSync({retries: 1}), {code: 'ELOCKED'});
+    lock3.releaseSync();
+    t.same(lock3.existsSync(), false);
+
+    const controller = new AbortController();
+    const lock4 = await file.lock();
+    setTimeout(() => controller.abort(), 50);
+    await t.rejects(file.lock({timeout: 5000, signal: controller.signal}), {name: 'AbortError'});
+    await t.rejects(file.lock({signal: controller.signal}), {name: 'AbortError'});
+
+    await t.test('Refresh', async t => {
+      await lock4.release();
+      const past = new Date(Date.now() - 60000);
+      const lock = await file.lock({stale: 100});
+      await lock.utimes(past, past);
+      await new Promise(resolve => setTimeout(resolve, 120));
+      t.ok((await lock.stat()).mtimeMs > past.getTime());
+      await lock.release();
+
+      const lost = await file.lock({stale: 100});
+      await lost.child('owner.json').writeFile(JSON.stringify({hostname: os.hostname(), id: 'other', pid: 1}));
+      await lost.utimes(past, past);
+      await new Promise(resolve => setTimeout(resolve, 120));
+      t.equal(Math.round((await lost.stat()).mtimeMs), past.getTime());
+      await lost.release();
+      t.same(await lost.exists(), true);
+      await lost.rm({recursive: true});
+    });
+
+    await t.test('Stale lock', async t => {
+      const lock = await file.lock();
+      const past = new Date(Date.now() - 60000);
+      await lock.utimes(past, past);
+      const lock2 = await file.lock({stale: 1000});
+      t.not(JSON.parse(await lock2.child('owner.json').readFile('utf8')).id, lock._id);
+      await lock.release();
+      t.same(await lock2.exists(), true);
+      lock2.releaseSync();
+      t.same(await lock2.exists(), false);
+
+      await lock.mkdir();
+      await lock.utimes(past, past);
+      const lock3 = file.lockSync({stale: 1000});
+      t.same(lock3.existsSync(), true);
+      lock3.releaseSync();
+    });
+
+    await t.test('Dead process', async t => {
+      const child = spawnSync(process.execPath, ['-e', '']);
+      await dir.child('cache.json.lock').mkdir();
+      const data = JSON.stringify({hostname: os.hostname(), id: 'dead', pid: child.pid});
+      await dir.child('cache.json.lock', 'owner.json').writeFile(data);
+      const lock = await file.lock();
+      t.equal(JSON.parse(await lock.child('owner.json').readFile('utf8')).pid, process.pid);
+      await lock.release();
+
+      await dir.child('cache.json.lock').mkdir();
+      await dir.child('cache.json.lock', 'owner.json').writeFile(data.replace('"hostname":"', '"hostname":"other-'));
+      await t.rejects(file.lock(), {code: 'ELOCKED'});
+      await dir.child('cache.json.lock', 'owner.json').writeFile(data);
+      const lock2 = file.lockSync();
+      t.same(lock2.existsSync(), true);
+      lock2.releaseSync();
+    });
+
+    await t.test('Stale lock taken over by another process', async t => {
+      const past = new Date(Date.now() - 60000);
+      const backend = new NodeBackend();
+      const rename = backend.rename.bind(backend);
+      const renameSync = backend.renameSync.bind(backend);
+      const takeOver = () => {
+        const other = new Path(`${file}.lock`);
+        other.rmSync({recursive: true});
+        other.mkdirSync();
+        other.child('owner.json').writeFileSync(JSON.stringify({hostname: os.hostname(), id: 'other', pid: 1}));
+      };
+      backend.rename = async (from, to) => {
+        if (to.endsWith('.stale')) takeOver();
+        return await rename(from, to);
+      };
+      backend.renameSync = (from, to) => {
+        if (to.endsWith('.stale')) takeOver();
+        return renameSync(from, to);
+      };
+      const racing = dir.child('cache.json');
+      racing.backend = backend;
+
+      const lock = await file.lock();
+      await lock.utimes(past, past);
+      await t.rejects(racing.lock({stale: 1000}), {name: 'LockedError', code: 'ELOCKED', path: lock.toString()});
+      t.equal(JSON.parse(await lock.child('owner.json').readFile('utf8')).id, 'other');
+      const leftovers = [];
+      for await (const file of dir.list({hidden: true, dir: true})) {
+        leftovers.push(file.basename());
+      }
+      t.same(leftovers, ['cache.json.lock']);
+
+      await lock.utimes(past, past);
+      t.throws(() => racing.lockSync({stale: 1000}), {name: 'LockedError', code: 'ELOCKED'});
+      t.equal(JSON.parse(await lock.child('owner.json').readFile('utf8')).id, 'other');
+      await lock.rm({recursive: true});
+    });
+
+    await t.test('Lock taken over before exit', async t => {
+      const script = `
+        import Path from ${JSON.stringify(new URL('../lib/path.js', import.meta.url).href)};
+        const file = new Path(process.argv[1]);
+        const lock = file.lockSync();
+        lock.child('owner.json').writeFileSync(JSON.stringify({hostname: 'other', id: 'other', pid: 1}));
+        const file2 = new Path(process.argv[2]);
+        file2.lockSync();
+      `;
+      const other = dir.child('other.json');
+      const result = spawnSync(process.execPath, [
+        '--input-type=module',
+        '-e',
+        script,
+        file.toString(),
+        other.toString()
+      ]);
+      t.equal(result.status, 0);
+      t.same(await dir.child('cache.json.lock').exists(), true);
+      t.same(await dir.child('other.json.lock').exists(), false);
+      await dir.child('cache.json.lock').rm({recursive: true});
+    });
+
+    await dir.destroy();
+  });
+
+  await t.test('tempFile', async t => {
+    const temp = await Path.tempFile();
+    const file = new Path(temp.toString());
+    t.equal(temp.dirname().toString(), new Path(os.tmpdir()).toString());
+    t.match(temp.basename(), /^node-[0-9a-f]{16}$/);
+    t.same(await file.exists(), true);
+    t.equal(await temp.readFile('utf8'), '');
+    await temp.destroy();
+    t.same(await file.exists(), false);
+    await temp.destroy();
+
+    const temp2 = Path.tempFileSync({data: 'Hello Mojo!'});
+    const file2 = new Path(temp2.toString());
+    t.same(file2.existsSync(), true);
+    t.equal(file2.readFileSync('utf8'), 'Hello Mojo!');
+    temp2.destroySync();
+    t.same(file2.existsSync(), false);
+
+    const dir = await Path.tempDir();
+    const temp3 = await Path.tempFile({dir, prefix: 'mojo-', suffix: '.json', data: '{"foo":"bar"}'});
+    t.equal(temp3.dirname().toString(), dir.toString());
+    t.match(temp3.basename(), /^mojo-[0-9a-f]{16}\.json$/);
+    t.equal(temp3.extname(), '.json');
+    t.equal(await temp3.readFile('utf8'), '{"foo":"bar"}');
+    if (process.platform !== 'win32') t.equal((await temp3.stat()).mode & 0o777, 0o600);
+
+    const temp4 = Path.tempFileSync({dir, prefix: 'mojo-', data: Buffer.from('Hello')});
+    t.equal(temp4.readFileSync('utf8'), 'Hello');
+    temp4.destroySync();
+    t.same(temp4.existsSync(), false);
+
+    const temps = await Promise.all(Array.from({length: 20}, () => Path.tempFile({dir})));
+    t.equal(new Set(temps.map(temp => temp.toString())).size, 20);
+    await Promise.all(temps.map(temp => temp.destroy()));
+    await dir.destroy();
+    t.same(await temp3.exists(), false);
+  });
+
+  await t.test('findUp', async t => {
+    const dir = await Path.tempDir();
+    await dir.materialize({
+      'package.json': '{}',
+      'config/': {},
+      'foo/': {'config.json': '{}', 'package.json': '{}', 'bar/': {'config/': {}, 'baz/': {'test.txt': 'Test'}}}
+    });
+    const baz = dir.child('foo', 'bar', 'baz');
+
+    t.equal((await baz.findUp('package.json')).toString(), dir.child('foo', 'package.json').toString());
+    t.equal(baz.findUpSync('package.json').toString(), dir.child('foo', 'package.json').toString());
+    t.equal((await baz.child('test.txt').findUp('config.json')).toString(), dir.child('foo', 'config.json').toString());
+    t.equal((await baz.findUp(['missing.json', 'config'])).toString(), dir.child('foo', 'bar', 'config').toString());
+    t.equal(await baz.findUp('config', {type: 'file'}), undefined);
+    t.equal((await baz.findUp('config', {type: 'dir'})).toString(), dir.child('foo', 'bar', 'config').toString());
+    t.equal(baz.findUpSync('config.json', {type: 'dir'}), undefined);
+    t.equal(await baz.findUp('package.json', {stopAt: baz}), undefined);
+    t.equal(await baz.findUp('missing.json'), undefined);
+    t.equal(baz.findUpSync('missing.json'), undefined);
+    t.equal(
+      (await baz.findUp(async dir => (await dir.child('config.json').exists()) === true)).toString(),
+      dir.child('foo').toString()
+    );
+    t.equal(baz.findUpSync(dir => dir.child('config').existsSync()).toString(), dir.child('foo', 'bar').toString());
+
+    const all = await baz.findUpAll('package.json', {stopAt: dir.toString()});
+    t.same(
+      all.map(file => file.toString()),
+      [dir.child('foo', 'package.json').toString(), dir.child('package.json').toString()]
+    );
+    t.same(
+      baz.findUpAllSync(['config', 'config.json'], {stopAt: dir}).map(file => dir.relative(file).toArray().join('/')),
+      ['foo/bar/config', 'foo/config.json', 'config']
+    );
+    t.same(await baz.findUpAll('missing.json', {stopAt: dir}), []);
+
+    await dir.destroy();
+  });
+
+  await t.test('projectRoot', async t => {
+    const root = await Path.currentFile().dirname().dirname().realpath();
+    t.equal((await (await Path.projectRoot()).realpath()).toString(), root.toString());
+    t.equal(Path.projectRootSync().realpathSync().toString(), root.toString());
+    t.equal((await Path.projectRoot({markers: ['support']})).toString(), Path.currentFile().dirname().toString());
+    t.equal(Path.projectRootSync({markers: ['support']}).toString(), Path.currentFile().dirname().toString());
+    t.equal(await Path.projectRoot({markers: ['missing.json'], stopAt: root}), undefined);
+    t.equal(Path.projectRootSync({markers: ['missing.json'], stopAt: root}), undefined);
+  });
+
   await t.test('callerFile', async t => {
     t.same((await callerTest().realpath()).toString(), (await Path.currentFile().realpath()).toString());
     t.same(
@@ -418,3 +2479,7 @@ t.test('Path', async t => {
     );
   });
 });
+
+function checksum(data, algorithm = 'sha256') {
+  return crypto.createHash(algorithm).update(data).digest('hex');
+}
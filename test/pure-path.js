@@ -0,0 +1,116 @@
+import {PosixPath, WindowsPath} from '../lib/path.js';
+import t from 'tap';
+
+t.test('PosixPath', async t => {
+  t.test('Constructor', t => {
+    t.equal(new PosixPath().toString(), '.');
+    t.equal(new PosixPath('foo', 'bar', 'baz').toString(), 'foo/bar/baz');
+    t.equal(new PosixPath('/foo', 'bar', '..', 'baz').toString(), '/foo/baz');
+    t.equal(`${new PosixPath('foo', 'bar.txt')}`, 'foo/bar.txt');
+    t.end();
+  });
+
+  t.test('String operations', t => {
+    const file = new PosixPath('/home/kraih/work/notes.txt');
+    t.equal(file.basename(), 'notes.txt');
+    t.equal(file.basename('.txt'), 'notes');
+    t.equal(file.extname(), '.txt');
+    t.ok(file.dirname() instanceof PosixPath);
+    t.equal(file.dirname().toString(), '/home/kraih/work');
+    t.equal(file.sibling('todo.txt').toString(), '/home/kraih/work/todo.txt');
+    t.equal(file.dirname().child('foo', 'bar.txt').toString(), '/home/kraih/work/foo/bar.txt');
+    t.same(file.isAbsolute(), true);
+    t.same(new PosixPath('foo', 'bar').isAbsolute(), false);
+    t.same(new PosixPath('C:\\foo').isAbsolute(), false);
+    t.equal(new PosixPath('/foo/./bar/../baz.txt').normalize().toString(), '/foo/baz.txt');
+    t.equal(new PosixPath('/foo/bar').relative('/foo/baz/yada.txt').toString(), '../baz/yada.txt');
+    t.equal(new PosixPath('/foo/bar').relative(new PosixPath('/foo/bar/baz')).toString(), 'baz');
+    t.same(file.toArray(), ['', 'home', 'kraih', 'work', 'notes.txt']);
+    t.same(new PosixPath('foo\\bar', 'baz').toArray(), ['foo\\bar', 'baz']);
+    t.same(file.toObject(), {root: '/', dir: '/home/kraih/work', base: 'notes.txt', ext: '.txt', name: 'notes'});
+    t.end();
+  });
+
+  t.test('toFileURL', t => {
+    t.equal(new PosixPath('/home/kraih/notes.txt').toFileURL().href, 'file:///home/kraih/notes.txt');
+    t.equal(new PosixPath('/foo bar/../100%#1?\\.txt').toFileURL().href, 'file:///100%25%231%3F%5C.txt');
+    t.throws(() => new PosixPath('foo', 'bar.txt').toFileURL(), {name: 'TypeError'});
+    t.end();
+  });
+
+  t.test('toWindows', t => {
+    t.ok(new PosixPath('foo').toWindows() instanceof WindowsPath);
+    t.ok(new PosixPath('foo').toPosix() instanceof PosixPath);
+    t.equal(new PosixPath('foo/bar/baz.txt').toWindows().toString(), 'foo\\bar\\baz.txt');
+    t.equal(new PosixPath('/home/kraih').toWindows().toString(), '\\home\\kraih');
+    t.equal(new PosixPath('/c/Users/kraih/notes.txt').toWindows().toString(), 'C:\\Users\\kraih\\notes.txt');
+    t.equal(new PosixPath('/d').toWindows().toString(), 'D:\\');
+    t.equal(new PosixPath('//server/share/foo/bar.txt').toWindows().toString(), '\\\\server\\share\\foo\\bar.txt');
+    t.equal(new PosixPath('//server/share').toWindows().toString(), '\\\\server\\share\\');
+    t.end();
+  });
+});
+
+t.test('WindowsPath', async t => {
+  t.test('Constructor', t => {
+    t.equal(new WindowsPath().toString(), '.');
+    t.equal(new WindowsPath('foo', 'bar', 'baz').toString(), 'foo\\bar\\baz');
+    t.equal(new WindowsPath('C:\\foo', 'bar', '..', 'baz').toString(), 'C:\\foo\\baz');
+    t.equal(new WindowsPath('C:/foo/bar.txt').toString(), 'C:/foo/bar.txt');
+    t.end();
+  });
+
+  t.test('String operations', t => {
+    const file = new WindowsPath('C:\\Users\\kraih\\work\\notes.txt');
+    t.equal(file.basename(), 'notes.txt');
+    t.equal(file.basename('.txt'), 'notes');
+    t.equal(file.extname(), '.txt');
+    t.ok(file.dirname() instanceof WindowsPath);
+    t.equal(file.dirname().toString(), 'C:\\Users\\kraih\\work');
+    t.equal(file.sibling('todo.txt').toString(), 'C:\\Users\\kraih\\work\\todo.txt');
+    t.equal(file.dirname().child('foo', 'bar.txt').toString(), 'C:\\Users\\kraih\\work\\foo\\bar.txt');
+    t.same(file.isAbsolute(), true);
+    t.same(new WindowsPath('\\\\server\\share\\foo').isAbsolute(), true);
+    t.same(new WindowsPath('foo', 'bar').isAbsolute(), false);
+    t.equal(new WindowsPath('C:/foo/./bar/../baz.txt').normalize().toString(), 'C:\\foo\\baz.txt');
+    t.equal(new WindowsPath('C:\\foo\\bar').relative('C:\\foo\\baz\\yada.txt').toString(), '..\\baz\\yada.txt');
+    t.equal(new WindowsPath('C:\\foo').relative(new WindowsPath('D:\\foo')).toString(), 'D:\\foo');
+    t.same(file.toArray(), ['C:', 'Users', 'kraih', 'work', 'notes.txt']);
+    t.same(new WindowsPath('foo/bar\\baz').toArray(), ['foo', 'bar', 'baz']);
+    t.same(file.toObject(), {
+      root: 'C:\\',
+      dir: 'C:\\Users\\kraih\\work',
+      base: 'notes.txt',
+      ext: '.txt',
+      name: 'notes'
+    });
+    t.equal(new WindowsPath('\\\\server\\share\\notes.txt').toObject().root, '\\\\server\\share\\');
+    t.end();
+  });
+
+  t.test('toFileURL', t => {
+    t.equal(new WindowsPath('C:\\Users\\kraih\\notes.txt').toFileURL().href, 'file:///C:/Users/kraih/notes.txt');
+    t.equal(new WindowsPath('C:/foo bar/100%#1.txt').toFileURL().href, 'file:///C:/foo%20bar/100%25%231.txt');
+    t.equal(new WindowsPath('\\\\server\\share\\foo\\bar.txt').toFileURL().href, 'file://server/share/foo/bar.txt');
+    t.throws(() => new WindowsPath('foo', 'bar.txt').toFileURL(), {name: 'TypeError'});
+    t.end();
+  });
+
+  t.test('toPosix', t => {
+    t.ok(new WindowsPath('foo').toPosix() instanceof PosixPath);
+    t.ok(new WindowsPath('foo').toWindows() instanceof WindowsPath);
+    t.equal(new WindowsPath('foo\\bar\\baz.txt').toPosix().toString(), 'foo/bar/baz.txt');
+    t.equal(new WindowsPath('\\Users\\kraih').toPosix().toString(), '/Users/kraih');
+    t.equal(new WindowsPath('C:\\Users\\kraih\\notes.txt').toPosix().toString(), '/c/Users/kraih/notes.txt');
+    t.equal(new WindowsPath('D:/foo/bar.txt').toPosix().toString(), '/d/foo/bar.txt');
+    t.equal(new WindowsPath('D:\\').toPosix().toString(), '/d');
+    t.equal(new WindowsPath('\\\\server\\share\\foo\\bar.txt').toPosix().toString(), '//server/share/foo/bar.txt');
+    t.equal(new WindowsPath('\\\\server\\share').toPosix().toString(), '//server/share');
+
+    const path = new WindowsPath('\\\\server\\share\\foo\\bar.txt');
+    t.equal(path.toPosix().toWindows().toString(), path.toString());
+    const path2 = new WindowsPath('C:\\Users\\kraih\\notes.txt');
+    t.equal(path2.toPosix().toWindows().toString(), path2.toString());
+    t.end();
+  });
+});
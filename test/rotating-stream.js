@@ -0,0 +1,122 @@
+import zlib from 'node:zlib';
+import Path, {RotatingWriteStream} from '../lib/path.js';
+import t from 'tap';
+
+t.test('RotatingWriteStream', async t => {
+  const names = async dir => {
+    const files = [];
+    for await (const file of dir.list()) {
+      files.push(file.basename());
+    }
+    return files.sort();
+  };
+  const write = async (stream, ...chunks) => {
+    for (const chunk of chunks) {
+      await new Promise((resolve, reject) => stream.write(chunk, error => (error ? reject(error) : resolve())));
+    }
+  };
+  const end = stream => new Promise(resolve => stream.end(resolve));
+
+  await t.test('maxSize', async t => {
+    const dir = await Path.tempDir();
+    const log = dir.child('app.log');
+    const stream = log.createRotatingWriteStream({maxSize: 20});
+    t.ok(stream instanceof RotatingWriteStream);
+
+    await write(stream, 'line 01\n', 'line 02\n', 'line 03\n', 'line 04\nline 05\nline 06\n');
+    await write(stream, 'line 07\nline 08\nline 09\n');
+    await end(stream);
+    t.same(await names(dir), ['app.log', 'app.log.1', 'app.log.2', 'app.log.3', 'app.log.4']);
+    t.equal(await log.readFile('utf8'), 'line 09\n');
+    t.equal(await dir.child('app.log.1').readFile('utf8'), 'line 07\nline 08\n');
+    t.equal(await dir.child('app.log.2').readFile('utf8'), 'line 05\nline 06\n');
+    t.equal(await dir.child('app.log.3').readFile('utf8'), 'line 03\nline 04\n');
+    t.equal(await dir.child('app.log.4').readFile('utf8'), 'line 01\nline 02\n');
+
+    const stream2 = log.createRotatingWriteStream({maxSize: 20, maxFiles: 2});
+    await write(stream2, 'line 10\n', 'line 11\n');
+    await end(stream2);
+    t.same(await names(dir), ['app.log', 'app.log.1', 'app.log.2']);
+    t.equal(await log.readFile('utf8'), 'line 11\n');
+    t.equal(await dir.child('app.log.1').readFile('utf8'), 'line 09\nline 10\n');
+    t.equal(await dir.child('app.log.2').readFile('utf8'), 'line 07\nline 08\n');
+
+    await dir.destroy();
+  });
+
+  await t.test('Lines', async t => {
+    const dir = await Path.tempDir();
+    const log = dir.child('app.log');
+    const stream = log.createRotatingWriteStream({maxSize: 10});
+
+    await write(stream, 'one', ' two', ' three\n', 'this line is too long\n', 'four\nfi');
+    t.same(await names(dir), ['app.log', 'app.log.1', 'app.log.2']);
+    await write(stream, 've\nsix');
+    await end(stream);
+    t.same(await names(dir), ['app.log', 'app.log.1', 'app.log.2', 'app.log.3']);
+    t.equal(await dir.child('app.log.3').readFile('utf8'), 'one two three\n');
+    t.equal(await dir.child('app.log.2').readFile('utf8'), 'this line is too long\n');
+    t.equal(await dir.child('app.log.1').readFile('utf8'), 'four\nfive\n');
+    t.equal(await log.readFile('utf8'), 'six');
+
+    await dir.destroy();
+  });
+
+  await t.test('compress', async t => {
+    const dir = await Path.tempDir();
+    const log = dir.child('app.log');
+    const stream = log.createRotatingWriteStream({maxSize: 10, maxFiles: 2, compress: true});
+
+    await write(stream, 'one\ntwo\n', 'three\n', 'four\n', 'fifth\n');
+    await end(stream);
+    t.same(await names(dir), ['app.log', 'app.log.1.gz', 'app.log.2.gz']);
+    t.equal(zlib.gunzipSync(await dir.child('app.log.1.gz').readFile()).toString(), 'four\n');
+    t.equal(zlib.gunzipSync(await dir.child('app.log.2.gz').readFile()).toString(), 'three\n');
+    t.equal(await log.readFile('utf8'), 'fifth\n');
+
+    await dir.destroy();
+  });
+
+  await t.test('interval', async t => {
+    const dir = await Path.tempDir();
+    const log = dir.child('app.log');
+    const stream = log.createRotatingWriteStream({interval: 100, naming: 'date', maxFiles: 2});
+
+    await write(stream, 'one\n');
+    await new Promise(resolve => setTimeout(resolve, 120));
+    await write(stream, 'two\n');
+    await new Promise(resolve => setTimeout(resolve, 120));
+    await write(stream, 'three\n');
+    await new Promise(resolve => setTimeout(resolve, 120));
+    await write(stream, 'four\n');
+    await end(stream);
+
+    const files = await names(dir);
+    t.equal(files.length, 3);
+    t.equal(files[0], 'app.log');
+    t.match(files[1], /^app\.log\.\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}(?:-\d+)?$/);
+    t.match(files[2], /^app\.log\.\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}(?:-\d+)?$/);
+    t.equal(await log.readFile('utf8'), 'four\n');
+    const contents = [];
+    for (const name of files.slice(1)) {
+      contents.push(await dir.child(name).readFile('utf8'));
+    }
+    t.same(contents.sort(), ['three\n', 'two\n']);
+
+    await dir.destroy();
+  });
+
+  await t.test('Existing file', async t => {
+    const dir = await Path.tempDir();
+    const log = await dir.child('app.log').writeFile('one\ntwo\n');
+    const stream = log.createRotatingWriteStream({maxSize: 10});
+
+    await write(stream, 'three\n');
+    await end(stream);
+    t.same(await names(dir), ['app.log', 'app.log.1']);
+    t.equal(await dir.child('app.log.1').readFile('utf8'), 'one\ntwo\n');
+    t.equal(await log.readFile('utf8'), 'three\n');
+
+    await dir.destroy();
+  });
+});
@@ -28,5 +28,40 @@ t.test('Path', async t => {
       }
       t.same(await check.exists(), false);
     });
+
+    await t.test('tempFile', async t => {
+      let check = Path.currentFile();
+      {
+        await using file = await Path.tempFile({data: 'works'});
+        check = new Path(file.toString());
+        t.equal(await file.readFile('utf-8'), 'works');
+      }
+      t.same(await check.exists(), false);
+
+      {
+        using file = Path.tempFileSync();
+        check = new Path(file.toString());
+        t.same(check.existsSync(), true);
+      }
+      t.same(check.existsSync(), false);
+    });
+
+    await t.test('lock', async t => {
+      const dir = await Path.tempDir();
+      const file = dir.child('cache.json');
+      {
+        await using lock = await file.lock();
+        t.same(await lock.exists(), true);
+        await t.rejects(file.lock(), {code: 'ELOCKED'});
+      }
+      t.same(await dir.child('cache.json.lock').exists(), false);
+
+      {
+        using lock = file.lockSync();
+        t.same(lock.existsSync(), true);
+      }
+      t.same(dir.child('cache.json.lock').existsSync(), false);
+      await dir.destroy();
+    });
   });
 });